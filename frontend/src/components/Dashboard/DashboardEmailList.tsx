@@ -2,7 +2,8 @@ import React, { useEffect, useState } from 'react';
 import { useApi } from '../../hooks/useApi';
 import { useAppState } from '../../hooks/useAppState';
 import EmailList from '../Email/EmailList';
-import type { Email } from '../../types/email';
+import { EMAIL_INTENT_LABELS } from '../../types/email';
+import type { Email, EmailIntent } from '../../types/email';
 
 interface DashboardEmailListProps {
   compact?: boolean;
@@ -16,6 +17,7 @@ const DashboardEmailList: React.FC<DashboardEmailListProps> = ({
   const [emails, setEmails] = useState<Email[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [intent, setIntent] = useState<EmailIntent | ''>('');
   
   const api = useApi();
   const { currentUser } = useAppState();
@@ -27,7 +29,8 @@ const DashboardEmailList: React.FC<DashboardEmailListProps> = ({
       setLoading(true);
       setError(null);
       
-      const response = await api.get(`/emails?limit=${limit}&userId=${currentUser.id}`);
+      const intentFilter = intent ? `&intent=${intent}` : '';
+      const response = await api.get(`/emails?limit=${limit}&userId=${currentUser.id}${intentFilter}`);
       setEmails((response.data as any)?.emails || []);
     } catch (err: any) {
       setError(err.message || 'Failed to load emails');
@@ -40,7 +43,7 @@ const DashboardEmailList: React.FC<DashboardEmailListProps> = ({
     if (currentUser) {
       fetchEmails();
     }
-  }, [currentUser, limit]);
+  }, [currentUser, limit, intent]);
 
   if (loading) {
     return (
@@ -63,13 +66,37 @@ const DashboardEmailList: React.FC<DashboardEmailListProps> = ({
     );
   }
 
-  return (
+  const list = (
     <EmailList 
       emails={compact ? emails.slice(0, limit) : emails}
       compact={compact}
       onRefresh={fetchEmails}
     />
   );
+
+  if (compact) {
+    return list;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-end space-x-2">
+        <label htmlFor="intent-filter" className="text-sm text-gray-600">Intent</label>
+        <select
+          id="intent-filter"
+          value={intent}
+          onChange={(e) => setIntent(e.target.value as EmailIntent | '')}
+          className="input text-sm w-48"
+        >
+          <option value="">All intents</option>
+          {(Object.keys(EMAIL_INTENT_LABELS) as EmailIntent[]).map((value) => (
+            <option key={value} value={value}>{EMAIL_INTENT_LABELS[value]}</option>
+          ))}
+        </select>
+      </div>
+      {list}
+    </div>
+  );
 };
 
 export default DashboardEmailList;
\ No newline at end of file
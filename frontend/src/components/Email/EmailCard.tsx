@@ -1,5 +1,7 @@
-import React from 'react';
-import type { Email } from '../../types/email';
+import React, { useState } from 'react';
+import { useApi } from '../../hooks/useApi';
+import { EMAIL_INTENT_LABELS } from '../../types/email';
+import type { AiAnalysis, Email } from '../../types/email';
 
 interface EmailCardProps {
   email: Email;
@@ -8,6 +10,32 @@ interface EmailCardProps {
 }
 
 const EmailCard: React.FC<EmailCardProps> = ({ email, compact = false, onClick }) => {
+  const [showAnalysis, setShowAnalysis] = useState(false);
+  const [analyses, setAnalyses] = useState<AiAnalysis[] | null>(null);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
+
+  const api = useApi();
+
+  const toggleAnalysis = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setShowAnalysis(!showAnalysis);
+
+    if (analyses || showAnalysis) return;
+
+    try {
+      setAnalysisError(null);
+      const response = await api.emails.getAnalysis(email.id);
+      setAnalyses(response.data?.analyses || []);
+    } catch (err: any) {
+      setAnalysisError(err.message || 'Failed to load AI analysis');
+    }
+  };
+
+  const formatIntent = (analysis: AiAnalysis) => {
+    if (!analysis.intent) return 'Failed';
+    return analysis.intent.replace(/_/g, ' ');
+  };
+
   const getStatusBadge = (status: Email['status']) => {
     const badges = {
       pending: { text: 'Pending', className: 'status-pending' },
@@ -54,6 +82,25 @@ const EmailCard: React.FC<EmailCardProps> = ({ email, compact = false, onClick }
                 🎯 Demo Request
               </span>
             )}
+            {email.intent && email.intent !== 'DEMO_REQUEST' && (
+              <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+                {EMAIL_INTENT_LABELS[email.intent]}
+                {email.urgency === 'high' && ' · urgent'}
+              </span>
+            )}
+            {email.flaggedForReview && (
+              <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                🚩 Needs Review
+              </span>
+            )}
+            {email.suspectedInjection && (
+              <span
+                className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800"
+                title={email.injectionSignals?.join(', ')}
+              >
+                🛡️ Possible Prompt Injection
+              </span>
+            )}
             {getStatusBadge(email.status)}
           </div>
 
@@ -103,6 +150,56 @@ const EmailCard: React.FC<EmailCardProps> = ({ email, compact = false, onClick }
             </div>
           )}
 
+          {/* AI Decision */}
+          {!compact && (
+            <div className="mt-3">
+              <button
+                onClick={toggleAnalysis}
+                className="text-xs text-blue-600 hover:text-blue-800"
+              >
+                🧠 {showAnalysis ? 'Hide AI decision' : 'Why? Show AI decision'}
+              </button>
+
+              {showAnalysis && (
+                <div className="mt-2 space-y-2" onClick={(e) => e.stopPropagation()}>
+                  {analysisError && (
+                    <p className="text-xs text-red-600">{analysisError}</p>
+                  )}
+                  {!analyses && !analysisError && (
+                    <p className="text-xs text-gray-500">Loading...</p>
+                  )}
+                  {analyses && analyses.length === 0 && (
+                    <p className="text-xs text-gray-500">No AI analysis recorded for this email</p>
+                  )}
+                  {analyses?.map((analysis) => (
+                    <div key={analysis.id} className="bg-gray-50 rounded-md p-3 text-xs text-gray-700">
+                      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mb-1">
+                        <span className="font-medium capitalize">{formatIntent(analysis)}</span>
+                        {analysis.confidence !== null && (
+                          <span>Confidence: {Math.round(analysis.confidence * 100)}%</span>
+                        )}
+                        <span>{analysis.kind === 'reply_analysis' ? 'Reply analysis' : 'Email analysis'}</span>
+                      </div>
+                      {analysis.reasoning && (
+                        <p className="text-gray-600 mb-1">{analysis.reasoning}</p>
+                      )}
+                      {analysis.error && (
+                        <p className="text-red-600 mb-1">{analysis.error}</p>
+                      )}
+                      <div className="flex flex-wrap gap-x-3 gap-y-1 text-gray-500">
+                        <span>{analysis.provider}/{analysis.model}</span>
+                        <span>Prompt {analysis.promptVersion === 0 ? 'built-in' : `v${analysis.promptVersion}`}</span>
+                        <span>{analysis.inputTokens + analysis.outputTokens} tokens ({analysis.inputTokens} in / {analysis.outputTokens} out)</span>
+                        <span>{analysis.modelCalls} model call(s)</span>
+                        <span>{(analysis.latencyMs / 1000).toFixed(1)}s</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Company Info */}
           {email.contactInfo?.company && !compact && (
             <div className="mt-2">
@@ -7,6 +7,7 @@ interface ScheduledResponseCardProps {
   onReschedule: (responseId: string, newDate: Date) => void;
   onDelete: (responseId: string) => void;
   onSendNow: (responseId: string) => void;
+  onApprove: (responseId: string) => void;
 }
 
 const ScheduledResponseCard: React.FC<ScheduledResponseCardProps> = ({
@@ -14,10 +15,13 @@ const ScheduledResponseCard: React.FC<ScheduledResponseCardProps> = ({
   onEdit,
   onReschedule,
   onDelete,
-  onSendNow
+  onSendNow,
+  onApprove
 }) => {
   const [showRescheduleInput, setShowRescheduleInput] = useState(false);
   const [newScheduleDate, setNewScheduleDate] = useState('');
+  const [showOriginal, setShowOriginal] = useState(false);
+  const wasEdited = !!response.originalBody && response.originalBody !== response.body;
 
   // Debug: Log when component receives new props
   console.log('ScheduledResponseCard received response:', {
@@ -30,6 +34,7 @@ const ScheduledResponseCard: React.FC<ScheduledResponseCardProps> = ({
     const badges = {
       DRAFT: { text: 'Draft', className: 'status-pending' },
       SCHEDULED: { text: 'Scheduled', className: 'status-processed' },
+      SENDING: { text: 'Sending', className: 'bg-blue-100 text-blue-800' },
       SENT: { text: 'Sent', className: 'bg-green-100 text-green-800' },
       CANCELLED: { text: 'Cancelled', className: 'bg-gray-100 text-gray-800' },
       FAILED: { text: 'Failed', className: 'status-failed' },
@@ -104,7 +109,7 @@ const ScheduledResponseCard: React.FC<ScheduledResponseCardProps> = ({
     
     return timeSlots.map((slot: any, index: number) => (
       <span key={index} className="inline-block bg-gray-100 text-gray-800 text-xs px-2 py-1 rounded mr-2 mb-1">
-        {new Date(slot.start).toLocaleString([], { 
+        {slot.formatted || new Date(slot.start).toLocaleString([], { 
           month: 'short', 
           day: 'numeric', 
           hour: '2-digit', 
@@ -114,8 +119,16 @@ const ScheduledResponseCard: React.FC<ScheduledResponseCardProps> = ({
     ));
   };
 
+  // [[SLOT_n]] tokens are replaced with the slot labels when the email is sent
+  const renderSlotTokens = (body: string) => {
+    const slots = Array.isArray(response.proposedTimeSlots) ? response.proposedTimeSlots : [];
+    return body.replace(/\[\[SLOT_(\d+)\]\]/g, (token, n) => slots[Number(n) - 1]?.formatted || token);
+  };
+
+  const awaitingApproval = !!response.requiresApproval && !response.approvedAt;
   const canEdit = ['DRAFT', 'SCHEDULED'].includes(response.status);
-  const canSend = ['DRAFT', 'SCHEDULED'].includes(response.status);
+  const canSend = ['DRAFT', 'SCHEDULED'].includes(response.status) && !awaitingApproval;
+  const canApprove = response.status === 'DRAFT' && awaitingApproval;
   const canReschedule = ['DRAFT', 'SCHEDULED'].includes(response.status);
 
   return (
@@ -125,6 +138,12 @@ const ScheduledResponseCard: React.FC<ScheduledResponseCardProps> = ({
           {/* Header */}
           <div className="flex items-center space-x-2 mb-3">
             {getStatusBadge(response.status)}
+            {awaitingApproval && (
+              <span className="status-badge bg-yellow-100 text-yellow-800">
+                Needs approval
+                {typeof response.confidence === 'number' && ` (${Math.round(response.confidence * 100)}% confidence)`}
+              </span>
+            )}
             <span className="text-sm text-gray-500">
               Scheduled: {formatDate(response.scheduledAt)}
             </span>
@@ -158,10 +177,37 @@ const ScheduledResponseCard: React.FC<ScheduledResponseCardProps> = ({
           {/* Body Preview */}
           <div className="mb-3">
             <p className="text-sm text-gray-600 line-clamp-3">
-              {truncateText(response.body, 200)}
+              {truncateText(renderSlotTokens(response.body), 200)}
             </p>
+            {wasEdited && (
+              <button
+                onClick={() => setShowOriginal(!showOriginal)}
+                className="mt-1 text-xs text-blue-600 hover:text-blue-800"
+              >
+                {showOriginal ? 'Hide AI draft' : 'Show AI draft'}
+              </button>
+            )}
+            {wasEdited && showOriginal && (
+              <p className="mt-1 text-sm text-gray-500 whitespace-pre-line border-l-2 border-gray-200 pl-2">
+                {response.originalBody}
+              </p>
+            )}
           </div>
 
+          {/* Guardrail Checks */}
+          {response.validationReport && !response.validationReport.passed && (
+            <div className="mb-3 p-2 bg-red-50 border border-red-200 rounded">
+              <div className="text-xs font-medium text-red-800 mb-1">
+                🚧 Failed {response.validationReport.issues.length} guardrail check(s)
+              </div>
+              <ul className="list-disc list-inside text-xs text-red-700">
+                {response.validationReport.issues.map((issue, index) => (
+                  <li key={index}>{issue.message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Time Slots */}
           {response.proposedTimeSlots && (
             <div className="mb-3">
@@ -232,6 +278,16 @@ const ScheduledResponseCard: React.FC<ScheduledResponseCardProps> = ({
             </button>
           )}
           
+          {canApprove && (
+            <button
+              onClick={() => onApprove(response.id)}
+              className="btn-primary text-sm py-1 px-3"
+              title="Approve and send at the scheduled time"
+            >
+              ✅ Approve
+            </button>
+          )}
+
           {canSend && (
             <button
               onClick={() => onSendNow(response.id)}
@@ -23,6 +23,7 @@ const toUTCFromLocal = (localDateTimeString: string): string => {
 
 const formatTimeSlotForDisplay = (slot: any): string => {
   if (!slot || !slot.start) return 'Invalid slot';
+  if (slot.formatted) return slot.formatted; // rendered by the server in the recipient's timezone
   const startDate = new Date(slot.start);
   const endDate = slot.end ? new Date(slot.end) : new Date(startDate.getTime() + 30 * 60 * 1000); // Default 30 min
   return `${startDate.toLocaleString()} - ${endDate.toLocaleTimeString()}`;
@@ -208,12 +209,13 @@ const ScheduledResponseEditModal: React.FC<ScheduledResponseEditModalProps> = ({
                   <div className="space-y-2">
                     {response.proposedTimeSlots.map((slot: any, index: number) => (
                       <div key={index} className="text-sm text-gray-700 bg-white px-3 py-2 rounded border">
-                        <span className="font-medium">Slot {index + 1}:</span> {formatTimeSlotForDisplay(slot)}
+                        <span className="font-medium">[[SLOT_{index + 1}]]:</span> {formatTimeSlotForDisplay(slot)}
                       </div>
                     ))}
                   </div>
                   <p className="text-gray-500 text-xs mt-2">
                     Time slots cannot be edited here. They are part of the original response.
+                    A [[SLOT_n]] token in the message body is replaced with slot n when the email is sent.
                   </p>
                 </div>
               </div>
@@ -13,13 +13,23 @@ export interface ScheduledResponse {
   recipientName?: string;
   subject: string;
   body: string;
+  originalBody?: string | null; // body as generated, before any edits
   proposedTimeSlots: any;
   scheduledAt: string;
-  status: 'DRAFT' | 'SCHEDULED' | 'SENT' | 'CANCELLED' | 'FAILED' | 'EDITING';
+  status: 'DRAFT' | 'SCHEDULED' | 'SENDING' | 'SENT' | 'CANCELLED' | 'FAILED' | 'EDITING';
   sentAt?: string;
   sentMessageId?: string;
   lastEditedAt?: string;
   editedBy?: string;
+  confidence?: number | null;
+  requiresApproval?: boolean;
+  approvedAt?: string | null;
+  approvedBy?: string | null;
+  validationReport?: {
+    passed: boolean;
+    issues: Array<{ check: string; message: string }>;
+  } | null; // guardrail checks on the generated reply
+  prospectTimeZone?: string | null; // zone the slots are shown in to the recipient
   createdAt: string;
   updatedAt: string;
   emailRecord?: {
@@ -70,7 +80,10 @@ const ScheduledResponsesList: React.FC = () => {
     if (!editingResponse) return;
 
     try {
-      const response = await api.put(`/scheduled-responses/${editingResponse.id}`, updatedData);
+      const response = await api.put(`/scheduled-responses/${editingResponse.id}`, {
+        ...updatedData,
+        editedBy: currentUser?.id
+      });
       
       console.log('API response from edit:', response.data);
       console.log('Updated data being applied:', updatedData);
@@ -87,7 +100,8 @@ const ScheduledResponsesList: React.FC = () => {
               scheduledAt: updatedData.scheduledAt || r.scheduledAt,
               proposedTimeSlots: updatedData.proposedTimeSlots || r.proposedTimeSlots,
               updatedAt: new Date().toISOString(),
-              lastEditedAt: new Date().toISOString()
+              lastEditedAt: new Date().toISOString(),
+              editedBy: currentUser?.id
             };
             console.log('Updated response in list:', updatedResponse);
             console.log('Old scheduledAt:', r.scheduledAt);
@@ -149,6 +163,18 @@ const ScheduledResponsesList: React.FC = () => {
     }
   };
 
+  const handleApprove = async (responseId: string) => {
+    try {
+      await api.post(`/scheduled-responses/${responseId}/approve`, {
+        approvedBy: currentUser?.id
+      });
+      await fetchResponses(); // Refresh the list
+    } catch (err: any) {
+      console.error('Error approving response:', err);
+      alert('Failed to approve response: ' + (err.message || 'Unknown error'));
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -211,6 +237,7 @@ const ScheduledResponsesList: React.FC = () => {
                 onReschedule={handleReschedule}
                 onDelete={handleDelete}
                 onSendNow={handleSendNow}
+                onApprove={handleApprove}
               />
             ))}
           </>
@@ -1,5 +1,6 @@
 import { useCallback } from 'react';
 import type { ApiResponse, ApiError } from '../types/api';
+import type { AiAnalysis } from '../types/email';
 
 class ApiClient {
   private baseURL: string;
@@ -106,6 +107,7 @@ export const useApi = () => {
     create: useCallback((emailData: any) => apiClient.post('/emails', emailData), []),
     update: useCallback((id: string, emailData: any) => apiClient.put(`/emails/${id}`, emailData), []),
     delete: useCallback((id: string) => apiClient.delete(`/emails/${id}`), []),
+    getAnalysis: useCallback((id: string) => apiClient.get<{ analyses: AiAnalysis[] }>(`/emails/${id}/analysis`), []),
     search: useCallback((params: any) => {
       const searchParams = new URLSearchParams(params);
       return apiClient.get(`/emails?${searchParams}`);
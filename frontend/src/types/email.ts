@@ -8,11 +8,36 @@ export interface Email {
   receivedAt: string;
   status: 'pending' | 'processed' | 'failed' | 'response_sent';
   isDemoRequest?: boolean;
+  intent?: EmailIntent | null;
+  urgency?: 'low' | 'medium' | 'high' | null;
+  intentAction?: 'SCHEDULE' | 'RESCHEDULE' | 'CANCEL' | 'FORWARD' | 'IGNORE' | null;
+  flaggedForReview?: boolean; // needs a human: low confidence, or an intent routed to forward
+  suspectedInjection?: boolean; // looked like a prompt-injection attempt
+  injectionSignals?: string[];
   intentAnalysis?: IntentAnalysis;
   contactInfo?: ContactInfo;
   calendarEvents?: any[];
 }
 
+export type EmailIntent =
+  | 'DEMO_REQUEST'
+  | 'RESCHEDULE'
+  | 'CANCELLATION'
+  | 'PRICING'
+  | 'PARTNERSHIP'
+  | 'SUPPORT'
+  | 'OTHER';
+
+export const EMAIL_INTENT_LABELS: Record<EmailIntent, string> = {
+  DEMO_REQUEST: '🎯 Demo Request',
+  RESCHEDULE: '🔁 Reschedule',
+  CANCELLATION: '✖️ Cancellation',
+  PRICING: '💰 Pricing',
+  PARTNERSHIP: '🤝 Partnership',
+  SUPPORT: '🛟 Support',
+  OTHER: '📨 Other'
+};
+
 export interface IntentAnalysis {
   confidence: number;
   intentType: string;
@@ -20,6 +45,24 @@ export interface IntentAnalysis {
   keywords?: string[];
 }
 
+// Audit record of one AI analysis call (GET /api/emails/:id/analysis)
+export interface AiAnalysis {
+  id: string;
+  kind: 'email_analysis' | 'reply_analysis';
+  intent: string | null;
+  confidence: number | null;
+  reasoning: string | null;
+  error: string | null;
+  provider: string;
+  model: string;
+  promptVersion: number; // 0 = built-in prompt
+  inputTokens: number;
+  outputTokens: number;
+  modelCalls: number;
+  latencyMs: number;
+  createdAt: string;
+}
+
 export interface ContactInfo {
   name: string;
   email: string;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "google_tokens" ADD COLUMN     "gmailHistoryId" TEXT,
+ADD COLUMN     "gmailWatchExpiresAt" TIMESTAMP(3);
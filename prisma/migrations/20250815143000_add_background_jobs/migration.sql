@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "BackgroundJobType" AS ENUM ('SYNC_USER_EMAILS', 'SEND_SCHEDULED_RESPONSE');
+
+-- CreateEnum
+CREATE TYPE "BackgroundJobStatus" AS ENUM ('QUEUED', 'RUNNING', 'SUCCEEDED', 'FAILED', 'DEAD');
+
+-- CreateTable
+CREATE TABLE "background_jobs" (
+    "id" TEXT NOT NULL,
+    "type" "BackgroundJobType" NOT NULL,
+    "payload" JSONB NOT NULL,
+    "dedupeKey" TEXT,
+    "status" "BackgroundJobStatus" NOT NULL DEFAULT 'QUEUED',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 3,
+    "runAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedBy" TEXT,
+    "lockedAt" TIMESTAMP(3),
+    "leaseExpiresAt" TIMESTAMP(3),
+    "lastError" TEXT,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "background_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "background_jobs_status_runAt_idx" ON "background_jobs"("status", "runAt");
+
+-- CreateIndex
+CREATE INDEX "background_jobs_dedupeKey_status_idx" ON "background_jobs"("dedupeKey", "status");
+
+-- CreateIndex
+CREATE INDEX "background_jobs_type_completedAt_idx" ON "background_jobs"("type", "completedAt");
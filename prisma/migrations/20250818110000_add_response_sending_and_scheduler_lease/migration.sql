@@ -0,0 +1,12 @@
+-- AlterEnum
+ALTER TYPE "ResponseStatus" ADD VALUE 'SENDING';
+
+-- CreateTable
+CREATE TABLE "scheduler_leases" (
+    "name" TEXT NOT NULL,
+    "holderId" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "scheduler_leases_pkey" PRIMARY KEY ("name")
+);
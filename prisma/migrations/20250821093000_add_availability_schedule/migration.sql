@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "AvailabilityOverrideType" AS ENUM ('UNAVAILABLE', 'EXTRA_HOURS');
+
+-- CreateTable
+CREATE TABLE "availability_windows" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "weekday" INTEGER NOT NULL,
+    "startTime" TEXT NOT NULL,
+    "endTime" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "availability_windows_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "availability_overrides" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "startDate" TEXT NOT NULL,
+    "endDate" TEXT NOT NULL,
+    "type" "AvailabilityOverrideType" NOT NULL,
+    "intervals" JSONB NOT NULL DEFAULT '[]',
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "availability_overrides_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "availability_windows_userId_weekday_idx" ON "availability_windows"("userId", "weekday");
+
+-- CreateIndex
+CREATE INDEX "availability_overrides_userId_startDate_endDate_idx" ON "availability_overrides"("userId", "startDate", "endDate");
+
+-- AddForeignKey
+ALTER TABLE "availability_windows" ADD CONSTRAINT "availability_windows_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "availability_overrides" ADD CONSTRAINT "availability_overrides_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
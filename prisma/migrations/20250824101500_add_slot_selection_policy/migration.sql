@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "proposedSlotCount" INTEGER NOT NULL DEFAULT 3,
+ADD COLUMN     "maxSlotsPerDay" INTEGER NOT NULL DEFAULT 2,
+ADD COLUMN     "minSlotGapMinutes" INTEGER NOT NULL DEFAULT 120;
@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "holdProposedSlots" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "holdTtlHours" INTEGER NOT NULL DEFAULT 48;
+
+-- AlterTable
+ALTER TABLE "calendar_event_records" ADD COLUMN     "holdExpiresAt" TIMESTAMP(3),
+ADD COLUMN     "scheduledResponseId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "calendar_event_records_scheduledResponseId_idx" ON "calendar_event_records"("scheduledResponseId");
+
+-- CreateIndex
+CREATE INDEX "calendar_event_records_status_holdExpiresAt_idx" ON "calendar_event_records"("status", "holdExpiresAt");
+
+-- AddForeignKey
+ALTER TABLE "calendar_event_records" ADD CONSTRAINT "calendar_event_records_scheduledResponseId_fkey" FOREIGN KEY ("scheduledResponseId") REFERENCES "scheduled_responses"("id") ON DELETE SET NULL ON UPDATE CASCADE;
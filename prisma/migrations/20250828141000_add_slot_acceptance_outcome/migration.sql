@@ -0,0 +1,7 @@
+-- CreateEnum
+CREATE TYPE "SlotAcceptanceOutcome" AS ENUM ('BOOKED', 'SLOT_CONFLICT');
+
+-- AlterTable
+ALTER TABLE "email_records" ADD COLUMN     "acceptanceOutcome" "SlotAcceptanceOutcome",
+ADD COLUMN     "acceptedSlotEnd" TIMESTAMP(3),
+ADD COLUMN     "acceptedSlotStart" TIMESTAMP(3);
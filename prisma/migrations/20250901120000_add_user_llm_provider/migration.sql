@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "llmModel" TEXT,
+ADD COLUMN     "llmProvider" TEXT;
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "ai_tool_steps" (
+    "id" TEXT NOT NULL,
+    "emailRecordId" TEXT NOT NULL,
+    "attempt" INTEGER NOT NULL,
+    "round" INTEGER NOT NULL,
+    "toolName" TEXT NOT NULL,
+    "arguments" JSONB,
+    "result" JSONB,
+    "error" TEXT,
+    "latencyMs" INTEGER NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ai_tool_steps_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ai_tool_steps_emailRecordId_startedAt_idx" ON "ai_tool_steps"("emailRecordId", "startedAt");
+
+-- AddForeignKey
+ALTER TABLE "ai_tool_steps" ADD CONSTRAINT "ai_tool_steps_emailRecordId_fkey" FOREIGN KEY ("emailRecordId") REFERENCES "email_records"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "scheduled_responses" ADD COLUMN     "promptTemplateId" TEXT,
+ADD COLUMN     "promptVersion" INTEGER;
+
+-- CreateTable
+CREATE TABLE "prompt_templates" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "body" TEXT NOT NULL,
+    "note" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "prompt_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "prompt_templates_userId_name_isActive_idx" ON "prompt_templates"("userId", "name", "isActive");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "prompt_templates_userId_name_version_key" ON "prompt_templates"("userId", "name", "version");
+
+-- AddForeignKey
+ALTER TABLE "scheduled_responses" ADD CONSTRAINT "scheduled_responses_promptTemplateId_fkey" FOREIGN KEY ("promptTemplateId") REFERENCES "prompt_templates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "prompt_templates" ADD CONSTRAINT "prompt_templates_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "ai_analyses" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "emailRecordId" TEXT,
+    "kind" TEXT NOT NULL,
+    "intent" TEXT,
+    "confidence" DOUBLE PRECISION,
+    "reasoning" TEXT,
+    "error" TEXT,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "promptTemplateId" TEXT,
+    "promptVersion" INTEGER NOT NULL,
+    "inputTokens" INTEGER NOT NULL,
+    "outputTokens" INTEGER NOT NULL,
+    "modelCalls" INTEGER NOT NULL,
+    "latencyMs" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ai_analyses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ai_analyses_emailRecordId_createdAt_idx" ON "ai_analyses"("emailRecordId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ai_analyses_userId_createdAt_idx" ON "ai_analyses"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ai_analyses" ADD CONSTRAINT "ai_analyses_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ai_analyses" ADD CONSTRAINT "ai_analyses_emailRecordId_fkey" FOREIGN KEY ("emailRecordId") REFERENCES "email_records"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ai_analyses" ADD CONSTRAINT "ai_analyses_promptTemplateId_fkey" FOREIGN KEY ("promptTemplateId") REFERENCES "prompt_templates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "autoSendMinConfidence" DOUBLE PRECISION NOT NULL DEFAULT 0.85,
+ADD COLUMN     "draftMinConfidence" DOUBLE PRECISION NOT NULL DEFAULT 0.5;
+
+-- AlterTable
+ALTER TABLE "email_records" ADD COLUMN     "flaggedForReview" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "scheduled_responses" ADD COLUMN     "confidence" DOUBLE PRECISION,
+ADD COLUMN     "requiresApproval" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "approvedAt" TIMESTAMP(3),
+ADD COLUMN     "approvedBy" TEXT;
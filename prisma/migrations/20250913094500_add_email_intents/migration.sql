@@ -0,0 +1,16 @@
+-- CreateEnum
+CREATE TYPE "EmailIntent" AS ENUM ('DEMO_REQUEST', 'RESCHEDULE', 'CANCELLATION', 'PRICING', 'PARTNERSHIP', 'SUPPORT', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "IntentAction" AS ENUM ('SCHEDULE', 'RESCHEDULE', 'CANCEL', 'FORWARD', 'IGNORE');
+
+-- AlterTable
+ALTER TABLE "email_records" ADD COLUMN     "intent" "EmailIntent",
+ADD COLUMN     "urgency" TEXT,
+ADD COLUMN     "intentAction" "IntentAction";
+
+-- Backfill from the old demo / not-demo classification
+UPDATE "email_records" SET "intent" = 'DEMO_REQUEST', "intentAction" = 'SCHEDULE' WHERE "isDemoRequest" = true;
+
+-- CreateIndex
+CREATE INDEX "email_records_userId_intent_idx" ON "email_records"("userId", "intent");
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "scheduled_responses" ADD COLUMN     "originalBody" TEXT;
+
+-- Unedited responses still hold the generated body
+UPDATE "scheduled_responses" SET "originalBody" = "body" WHERE "lastEditedAt" IS NULL;
+
+-- CreateTable
+CREATE TABLE "reply_style_profiles" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "greeting" TEXT,
+    "signOff" TEXT,
+    "lengthRatio" DOUBLE PRECISION,
+    "targetWordCount" INTEGER,
+    "preferredPhrases" TEXT[],
+    "avoidedPhrases" TEXT[],
+    "sampleSize" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "reply_style_profiles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "reply_style_profiles_userId_key" ON "reply_style_profiles"("userId");
+
+-- AddForeignKey
+ALTER TABLE "reply_style_profiles" ADD CONSTRAINT "reply_style_profiles_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "email_records" ADD COLUMN     "suspectedInjection" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "injectionSignals" TEXT[];
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "piiRedactionCategories" TEXT[] DEFAULT ARRAY['phone', 'card', 'bank_account', 'national_id', 'address']::TEXT[];
+
+-- CreateTable
+CREATE TABLE "pii_redactions" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT,
+    "purpose" TEXT NOT NULL,
+    "messageId" TEXT,
+    "counts" JSONB NOT NULL,
+    "total" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "pii_redactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "pii_redactions_userId_createdAt_idx" ON "pii_redactions"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "pii_redactions" ADD CONSTRAINT "pii_redactions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "bannedReplyPhrases" TEXT[] DEFAULT ARRAY['discount', '% off', 'special offer', 'free of charge', 'pricing', 'price', 'guarantee']::TEXT[];
+
+-- AlterTable
+ALTER TABLE "scheduled_responses" ADD COLUMN     "validationReport" JSONB;
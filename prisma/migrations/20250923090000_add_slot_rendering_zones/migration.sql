@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "locale" TEXT NOT NULL DEFAULT 'en-US';
+
+-- AlterTable
+ALTER TABLE "scheduled_responses" ADD COLUMN     "prospectTimeZone" TEXT;
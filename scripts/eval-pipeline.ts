@@ -0,0 +1,122 @@
+#!/usr/bin/env tsx
+
+/**
+ * Offline evaluation of the email analysis pipeline
+ *
+ * Runs a labeled corpus through OpenAIService against a fake calendar and scores intent
+ * classification, contact extraction and slot picking, or diffs two saved runs.
+ *
+ *   npm run eval -- run eval/corpus/sample.json [--out runs/baseline.json] [--provider openai] [--model gpt-4o] [--template prompt.txt]
+ *   npm run eval -- diff runs/baseline.json runs/candidate.json
+ */
+
+import { loadCorpus } from '@/eval/corpus';
+import { PipelineEvaluator } from '@/eval/PipelineEvaluator';
+import { diffRuns, formatRun } from '@/eval/report';
+import { llmProviderFactory, LLM_PROVIDER_NAMES } from '@/services/llm';
+import { ActivePromptTemplate, promptTemplateService } from '@/services/PromptTemplateService';
+import { LLMProviderName } from '@/types';
+import { EvalRunResult } from '@/types/eval';
+import fs from 'fs';
+import path from 'path';
+
+const USAGE = `Usage:
+  eval-pipeline run <corpus.json> [--out <file>] [--provider <name>] [--model <model>] [--template <file>]
+  eval-pipeline diff <baseline.json> <candidate.json>`;
+
+function parseArgs(argv: string[]): { positional: string[]; flags: Record<string, string> } {
+  const positional: string[] = [];
+  const flags: Record<string, string> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      const value = argv[i + 1];
+      if (value === undefined || value.startsWith('--')) {
+        throw new Error(`Missing value for ${argv[i]}`);
+      }
+      flags[argv[i].slice(2)] = value;
+      i++;
+    } else {
+      positional.push(argv[i]);
+    }
+  }
+
+  return { positional, flags };
+}
+
+function loadTemplate(templatePath: string): ActivePromptTemplate {
+  const body = fs.readFileSync(templatePath, 'utf8');
+  const errors = promptTemplateService.validate('email_analysis', body);
+  if (errors.length > 0) {
+    throw new Error(`Invalid email_analysis template ${templatePath}: ${errors.join('; ')}`);
+  }
+  return { id: null, name: 'email_analysis', version: 0, body };
+}
+
+async function runCommand(corpusPath: string, flags: Record<string, string>): Promise<EvalRunResult> {
+  const providerName = flags.provider as LLMProviderName | undefined;
+  if (providerName && !LLM_PROVIDER_NAMES.includes(providerName)) {
+    throw new Error(`Unknown provider ${providerName} (expected one of ${LLM_PROVIDER_NAMES.join(', ')})`);
+  }
+
+  const corpus = loadCorpus(corpusPath);
+  const provider = llmProviderFactory.create(providerName, flags.model);
+  const evaluator = new PipelineEvaluator(provider, {
+    template: flags.template ? loadTemplate(flags.template) : undefined,
+    promptVersion: flags.template ? path.basename(flags.template) : undefined,
+    onCase: result => {
+      const ok = !result.error && result.intent === result.expectedIntent;
+      console.log(`${ok ? '✅' : '❌'} ${result.id}: ${result.error ? `failed (${result.error})` : result.intent}`);
+    }
+  });
+
+  console.log(`🧪 Evaluating ${corpus.cases.length} cases from ${corpus.name} with ${provider.name}/${provider.model}\n`);
+  const run = await evaluator.run(corpus, path.resolve(corpusPath));
+  console.log(`\n${formatRun(run)}`);
+
+  if (flags.out) {
+    fs.mkdirSync(path.dirname(path.resolve(flags.out)), { recursive: true });
+    fs.writeFileSync(flags.out, JSON.stringify(run, null, 2));
+    console.log(`\n💾 Saved run to ${flags.out}`);
+  }
+
+  return run;
+}
+
+function diffCommand(baselinePath: string, candidatePath: string): void {
+  const baseline: EvalRunResult = JSON.parse(fs.readFileSync(baselinePath, 'utf8'));
+  const candidate: EvalRunResult = JSON.parse(fs.readFileSync(candidatePath, 'utf8'));
+
+  if (baseline.corpus !== candidate.corpus) {
+    console.warn(`⚠️ Comparing runs of different corpora: ${baseline.corpus} vs ${candidate.corpus}`);
+  }
+  console.log(diffRuns(baseline, candidate));
+}
+
+async function main() {
+  const [command, ...rest] = process.argv.slice(2);
+
+  try {
+    const { positional, flags } = parseArgs(rest);
+
+    if (command === 'run' && positional.length === 1) {
+      await runCommand(positional[0], flags);
+    } else if (command === 'diff' && positional.length === 2) {
+      diffCommand(positional[0], positional[1]);
+    } else {
+      console.error(USAGE);
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error('❌ Evaluation failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+
+  process.exit(0);
+}
+
+if (require.main === module) {
+  main().catch(console.error);
+}
+
+export default main;
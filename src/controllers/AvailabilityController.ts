@@ -0,0 +1,217 @@
+import { Request, Response } from 'express';
+import { availabilityRepository, userRepository } from '@/database/repositories';
+import { userConfigService } from '@/services/UserConfigService';
+import { AvailabilityOverrideType } from '@prisma/client';
+import { z } from 'zod';
+
+// Validation schemas
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:MM (00:00-23:59)');
+const localDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD');
+
+const intervalSchema = z.object({
+  start: timeOfDay,
+  end: timeOfDay
+}).refine(interval => interval.start < interval.end, 'Interval start must be before end');
+
+const intervalListSchema = z.array(intervalSchema).refine((intervals) => {
+  const sorted = [...intervals].sort((a, b) => a.start.localeCompare(b.start));
+  return sorted.every((interval, i) => i === 0 || sorted[i - 1].end <= interval.start);
+}, 'Intervals must not overlap');
+
+const weeklyHoursSchema = z.object({
+  weeklyHours: z.record(
+    z.string().regex(/^[0-6]$/, 'Weekday keys must be 0 (Sunday) to 6 (Saturday)'),
+    intervalListSchema
+  )
+});
+
+const createOverrideSchema = z.object({
+  startDate: localDate,
+  endDate: localDate.optional(),
+  type: z.nativeEnum(AvailabilityOverrideType),
+  intervals: intervalListSchema.default([]),
+  reason: z.string().max(200).optional()
+}).refine(data => !data.endDate || data.startDate <= data.endDate, 'endDate must not be before startDate')
+  .refine(
+    data => data.type !== AvailabilityOverrideType.EXTRA_HOURS || data.intervals.length > 0,
+    'EXTRA_HOURS overrides need at least one interval'
+  );
+
+export class AvailabilityController {
+
+  // GET /api/users/:id/availability
+  async getAvailability(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const user = await userRepository.findById(id);
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          error: 'User not found'
+        });
+        return;
+      }
+
+      const [schedule, windows] = await Promise.all([
+        userConfigService.getAvailabilitySchedule(user),
+        availabilityRepository.findWindowsByUser(id)
+      ]);
+
+      res.json({
+        success: true,
+        availability: {
+          timezone: user.timezone,
+          weeklyHours: schedule.weeklyHours,
+          overrides: schedule.overrides,
+          // True while the weekly hours are derived from businessHoursStart/End + workingDays
+          usesDefaultHours: windows.length === 0
+        }
+      });
+    } catch (error) {
+      console.error('AvailabilityController.getAvailability:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get availability',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // PUT /api/users/:id/availability
+  async updateWeeklyHours(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const validation = weeklyHoursSchema.safeParse(req.body);
+      if (!validation.success) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid input',
+          details: validation.error.errors
+        });
+        return;
+      }
+
+      const user = await userRepository.findById(id);
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          error: 'User not found'
+        });
+        return;
+      }
+
+      const windows = Object.entries(validation.data.weeklyHours).flatMap(([weekday, intervals]) =>
+        intervals.map(interval => ({
+          weekday: parseInt(weekday, 10),
+          startTime: interval.start,
+          endTime: interval.end
+        }))
+      );
+
+      await availabilityRepository.replaceWindows(id, windows);
+      const schedule = await userConfigService.getAvailabilitySchedule(user);
+
+      res.json({
+        success: true,
+        availability: {
+          timezone: user.timezone,
+          weeklyHours: schedule.weeklyHours,
+          overrides: schedule.overrides,
+          usesDefaultHours: windows.length === 0
+        },
+        message: 'Weekly availability updated successfully'
+      });
+    } catch (error) {
+      console.error('AvailabilityController.updateWeeklyHours:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update weekly availability',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // POST /api/users/:id/availability/overrides
+  async createOverride(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const validation = createOverrideSchema.safeParse(req.body);
+      if (!validation.success) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid input',
+          details: validation.error.errors
+        });
+        return;
+      }
+
+      const user = await userRepository.findById(id);
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          error: 'User not found'
+        });
+        return;
+      }
+
+      const { startDate, endDate, type, intervals, reason } = validation.data;
+      const override = await availabilityRepository.create({
+        userId: id,
+        startDate,
+        endDate: endDate || startDate,
+        type,
+        intervals,
+        reason
+      });
+
+      res.status(201).json({
+        success: true,
+        override: userConfigService.mapOverride(override),
+        message: 'Availability override created successfully'
+      });
+    } catch (error) {
+      console.error('AvailabilityController.createOverride:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create availability override',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // DELETE /api/users/:id/availability/overrides/:overrideId
+  async deleteOverride(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, overrideId } = req.params;
+
+      const override = await availabilityRepository.findById(overrideId);
+      if (!override || override.userId !== id) {
+        res.status(404).json({
+          success: false,
+          error: 'Availability override not found'
+        });
+        return;
+      }
+
+      await availabilityRepository.delete(overrideId);
+
+      res.json({
+        success: true,
+        message: 'Availability override deleted successfully'
+      });
+    } catch (error) {
+      console.error('AvailabilityController.deleteOverride:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to delete availability override',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+}
+
+// Export singleton instance
+export const availabilityController = new AvailabilityController();
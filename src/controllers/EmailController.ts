@@ -1,6 +1,6 @@
 import { Request, Response } from 'express';
-import { emailRepository } from '@/database/repositories';
-import { ProcessingStatus } from '@prisma/client';
+import { aiAnalysisRepository, emailRepository } from '@/database/repositories';
+import { EmailIntent, ProcessingStatus } from '@prisma/client';
 import { z } from 'zod';
 import { emailProcessingJob } from '@/jobs/EmailProcessingJob';
 import { responseSenderJob } from '@/jobs/ResponseSenderJob';
@@ -32,6 +32,7 @@ const emailSearchSchema = z.object({
   userId: z.string().optional(),
   processingStatus: z.nativeEnum(ProcessingStatus).optional(),
   isDemoRequest: z.boolean().optional(),
+  intent: z.nativeEnum(EmailIntent).optional(),
   responseGenerated: z.boolean().optional(),
   responseSent: z.boolean().optional(),
   startDate: z.string().datetime().optional(),
@@ -72,6 +73,66 @@ export class EmailController {
     }
   }
 
+  // GET /api/emails/:id/tool-steps
+  async getToolSteps(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const email = await emailRepository.findById(id);
+      if (!email) {
+        res.status(404).json({
+          success: false,
+          error: 'Email not found'
+        });
+        return;
+      }
+
+      const steps = await emailRepository.findToolSteps(id);
+
+      res.json({
+        success: true,
+        steps
+      });
+    } catch (error) {
+      console.error('EmailController.getToolSteps:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get tool steps',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // GET /api/emails/:id/analysis
+  async getAnalyses(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const email = await emailRepository.findById(id);
+      if (!email) {
+        res.status(404).json({
+          success: false,
+          error: 'Email not found'
+        });
+        return;
+      }
+
+      const analyses = await aiAnalysisRepository.findByEmailRecordId(id);
+
+      res.json({
+        success: true,
+        analyses
+      });
+    } catch (error) {
+      console.error('EmailController.getAnalyses:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get AI analyses',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
   // GET /api/emails/gmail/:messageId
   async getEmailByGmailId(req: Request, res: Response): Promise<void> {
     try {
@@ -561,7 +622,7 @@ export class EmailController {
       await emailProcessingJob.triggerProcessing();
       
       // Get job status for response
-      const status = emailProcessingJob.getStatus();
+      const status = await emailProcessingJob.getStatus();
       
       res.json({
         success: true,
@@ -591,7 +652,7 @@ export class EmailController {
       await responseSenderJob.triggerSending();
       
       // Get job status for response
-      const status = responseSenderJob.getStatus();
+      const status = await responseSenderJob.getStatus();
       
       res.json({
         success: true,
@@ -615,8 +676,10 @@ export class EmailController {
   // GET /api/emails/jobs/status
   async getJobStatus(req: Request, res: Response): Promise<void> {
     try {
-      const emailProcessingStatus = emailProcessingJob.getStatus();
-      const responseSendingStatus = responseSenderJob.getStatus();
+      const [emailProcessingStatus, responseSendingStatus] = await Promise.all([
+        emailProcessingJob.getStatus(),
+        responseSenderJob.getStatus()
+      ]);
       
       res.json({
         success: true,
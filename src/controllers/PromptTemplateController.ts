@@ -0,0 +1,268 @@
+import { Request, Response } from 'express';
+import { emailRepository, promptTemplateRepository, userRepository } from '@/database/repositories';
+import {
+  PROMPT_TEMPLATE_NAMES,
+  PROMPT_TEMPLATES,
+  PromptTemplateName,
+  promptTemplateService
+} from '@/services/PromptTemplateService';
+import { z } from 'zod';
+
+// Validation schemas
+const templateNameSchema = z.enum(PROMPT_TEMPLATE_NAMES as [PromptTemplateName, ...PromptTemplateName[]]);
+
+const createVersionSchema = z.object({
+  body: z.string().min(1).max(20000),
+  note: z.string().max(200).optional(),
+  activate: z.boolean().optional()
+});
+
+const previewSchema = z.object({
+  name: templateNameSchema,
+  version: z.number().int().min(0).optional(), // 0 = built-in; defaults to the active version
+  body: z.string().min(1).max(20000).optional() // unsaved draft, takes precedence over version
+});
+
+export class PromptTemplateController {
+
+  // GET /api/users/:id/prompt-templates
+  async listTemplates(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const user = await userRepository.findById(id);
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          error: 'User not found'
+        });
+        return;
+      }
+
+      const templates = await Promise.all(PROMPT_TEMPLATE_NAMES.map(async name => {
+        const definition = PROMPT_TEMPLATES[name];
+        return {
+          name,
+          description: definition.description,
+          variables: definition.variables,
+          requiredVariables: definition.requiredVariables,
+          builtInBody: definition.body,
+          active: await promptTemplateService.getActive(id, name)
+        };
+      }));
+
+      res.json({
+        success: true,
+        templates
+      });
+    } catch (error) {
+      console.error('PromptTemplateController.listTemplates:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get prompt templates',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // GET /api/users/:id/prompt-templates/:name/versions
+  async getVersions(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const name = templateNameSchema.safeParse(req.params.name);
+      if (!name.success) {
+        res.status(404).json({
+          success: false,
+          error: 'Unknown prompt template'
+        });
+        return;
+      }
+
+      const versions = await promptTemplateRepository.findVersions(id, name.data);
+
+      res.json({
+        success: true,
+        versions
+      });
+    } catch (error) {
+      console.error('PromptTemplateController.getVersions:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get prompt template versions',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // POST /api/users/:id/prompt-templates/:name/versions
+  async createVersion(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const name = templateNameSchema.safeParse(req.params.name);
+      if (!name.success) {
+        res.status(404).json({
+          success: false,
+          error: 'Unknown prompt template'
+        });
+        return;
+      }
+
+      const validation = createVersionSchema.safeParse(req.body);
+      if (!validation.success) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid input',
+          details: validation.error.errors
+        });
+        return;
+      }
+
+      const templateErrors = promptTemplateService.validate(name.data, validation.data.body);
+      if (templateErrors.length > 0) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid template',
+          details: templateErrors
+        });
+        return;
+      }
+
+      const user = await userRepository.findById(id);
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          error: 'User not found'
+        });
+        return;
+      }
+
+      const { body, note, activate } = validation.data;
+      const template = await promptTemplateService.createVersion(id, name.data, body, { note, activate });
+
+      res.status(201).json({
+        success: true,
+        template,
+        message: `Prompt template version ${template.version} created successfully`
+      });
+    } catch (error) {
+      console.error('PromptTemplateController.createVersion:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create prompt template version',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // POST /api/users/:id/prompt-templates/:name/versions/:version/activate
+  async activateVersion(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const version = parseInt(req.params.version, 10);
+
+      const name = templateNameSchema.safeParse(req.params.name);
+      if (!name.success || isNaN(version) || version < 0) {
+        res.status(404).json({
+          success: false,
+          error: 'Prompt template version not found'
+        });
+        return;
+      }
+
+      const template = await promptTemplateService.activateVersion(id, name.data, version);
+      if (!template) {
+        res.status(404).json({
+          success: false,
+          error: 'Prompt template version not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        template,
+        message: version === 0
+          ? 'Built-in prompt template restored'
+          : `Prompt template version ${version} activated`
+      });
+    } catch (error) {
+      console.error('PromptTemplateController.activateVersion:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to activate prompt template version',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // POST /api/emails/:id/prompt-preview
+  async previewForEmail(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const validation = previewSchema.safeParse(req.body);
+      if (!validation.success) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid input',
+          details: validation.error.errors
+        });
+        return;
+      }
+
+      const emailRecord = await emailRepository.findById(id);
+      if (!emailRecord) {
+        res.status(404).json({
+          success: false,
+          error: 'Email not found'
+        });
+        return;
+      }
+
+      const { name, version, body } = validation.data;
+
+      // version is null for an unsaved draft
+      let template: { id: string | null; version: number | null; body: string } | null;
+      if (body) {
+        template = { id: null, version: null, body };
+      } else if (version !== undefined) {
+        template = await promptTemplateService.getVersion(emailRecord.userId, name, version);
+      } else {
+        template = await promptTemplateService.getActive(emailRecord.userId, name);
+      }
+
+      if (!template) {
+        res.status(404).json({
+          success: false,
+          error: 'Prompt template version not found'
+        });
+        return;
+      }
+
+      const { prompt, variables } = await promptTemplateService.previewForEmail(emailRecord, name, template);
+
+      res.json({
+        success: true,
+        preview: {
+          name,
+          templateId: template.id,
+          version: template.version,
+          prompt,
+          variables,
+          errors: promptTemplateService.validate(name, template.body)
+        }
+      });
+    } catch (error) {
+      console.error('PromptTemplateController.previewForEmail:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to preview prompt template',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+}
+
+export const promptTemplateController = new PromptTemplateController();
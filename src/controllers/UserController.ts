@@ -1,6 +1,11 @@
 import { Request, Response } from 'express';
 import { userRepository } from '@/database/repositories';
+import { llmUsageService } from '@/services/LlmUsageService';
+import { piiRedactionService } from '@/services/PiiRedactionService';
+import { replyStyleService } from '@/services/ReplyStyleService';
 import { userConfigService } from '@/services/UserConfigService';
+import { isValidLocale } from '@/utils/slotFormatting';
+import { isValidTimeZone } from '@/utils/timezone';
 import { z } from 'zod';
 
 // Validation schemas
@@ -14,7 +19,7 @@ const createUserSchema = z.object({
   businessHoursStart: z.string().optional(),
   businessHoursEnd: z.string().optional(),
   workingDays: z.array(z.number().min(0).max(6)).optional(),
-  timezone: z.string().optional(),
+  timezone: z.string().refine(isValidTimeZone, 'Invalid IANA timezone').optional(),
   meetingDuration: z.number().min(15).max(240).optional(),
   bufferTime: z.number().min(0).max(60).optional()
 });
@@ -28,10 +33,27 @@ const updateUserSchema = z.object({
   businessHoursStart: z.string().optional(),
   businessHoursEnd: z.string().optional(),
   workingDays: z.array(z.number().min(0).max(6)).optional(),
-  timezone: z.string().optional(),
+  timezone: z.string().refine(isValidTimeZone, 'Invalid IANA timezone').optional(),
   meetingDuration: z.number().min(15).max(240).optional(),
-  bufferTime: z.number().min(0).max(60).optional()
-});
+  bufferTime: z.number().min(0).max(60).optional(),
+  proposedSlotCount: z.number().int().min(1).max(10).optional(),
+  maxSlotsPerDay: z.number().int().min(1).max(10).optional(),
+  minSlotGapMinutes: z.number().int().min(0).max(480).optional(),
+  holdProposedSlots: z.boolean().optional(),
+  holdTtlHours: z.number().int().min(1).max(336).optional(),
+  llmProvider: z.enum(['openai', 'anthropic', 'openai-compatible', 'scripted']).nullable().optional(),
+  llmModel: z.string().min(1).max(100).nullable().optional(),
+  monthlyAiBudgetUsd: z.number().min(0).nullable().optional(),
+  autoSendMinConfidence: z.number().min(0).max(1).optional(),
+  draftMinConfidence: z.number().min(0).max(1).optional(),
+  piiRedactionCategories: z.array(z.enum(['email', 'phone', 'card', 'bank_account', 'national_id', 'address'])).optional(),
+  bannedReplyPhrases: z.array(z.string().trim().min(1).max(100)).max(100).optional(),
+  locale: z.string().refine(isValidLocale, 'Invalid locale').optional()
+}).refine(
+  data => data.autoSendMinConfidence === undefined || data.draftMinConfidence === undefined
+    || data.draftMinConfidence <= data.autoSendMinConfidence,
+  { message: 'draftMinConfidence must not be above autoSendMinConfidence', path: ['draftMinConfidence'] }
+);
 
 export class UserController {
   
@@ -268,11 +290,30 @@ export class UserController {
       const { id } = req.params;
       const { days = '30' } = req.query as Record<string, string>;
       
-      const stats = await userRepository.getUserStats(id, parseInt(days));
+      const user = await userRepository.findById(id);
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          error: 'User not found'
+        });
+        return;
+      }
+
+      const [stats, aiUsage, aiBudget, piiRedactions] = await Promise.all([
+        userRepository.getUserStats(id, parseInt(days)),
+        llmUsageService.getUsageReport(id, parseInt(days)),
+        llmUsageService.getBudgetStatus(user),
+        piiRedactionService.getReport(id, parseInt(days))
+      ]);
 
       res.json({
         success: true,
-        stats,
+        stats: {
+          ...stats,
+          aiUsage,
+          aiBudget,
+          piiRedactions
+        },
         period: parseInt(days)
       });
     } catch (error) {
@@ -284,6 +325,34 @@ export class UserController {
       });
     }
   }
+  // GET /api/users/:id/reply-style - Reply style learned from the user's edits to AI drafts
+  async getReplyStyle(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const user = await userRepository.findById(id);
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          error: 'User not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        profile: await replyStyleService.getProfile(id)
+      });
+    } catch (error) {
+      console.error('UserController.getReplyStyle:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get reply style profile',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
 
   // POST /api/users/:id/google-tokens
   async upsertGoogleTokens(req: Request, res: Response): Promise<void> {
@@ -0,0 +1,38 @@
+import { AiAnalysisTrace } from '@/types';
+import { AiAnalysis } from '@prisma/client';
+import { BaseRepository } from './BaseRepository';
+
+export class AiAnalysisRepository extends BaseRepository<AiAnalysis> {
+
+  async record(userId: string, emailRecordId: string | null, trace: AiAnalysisTrace): Promise<AiAnalysis> {
+    return this.prisma.aiAnalysis.create({
+      data: {
+        userId,
+        emailRecordId,
+        kind: trace.kind,
+        intent: trace.intent,
+        confidence: trace.confidence,
+        reasoning: trace.reasoning,
+        error: trace.error,
+        provider: trace.provider,
+        model: trace.model,
+        promptTemplateId: trace.promptTemplateId,
+        promptVersion: trace.promptVersion,
+        inputTokens: trace.inputTokens,
+        outputTokens: trace.outputTokens,
+        modelCalls: trace.modelCalls,
+        latencyMs: trace.latencyMs
+      }
+    });
+  }
+
+  /**
+   * Analyses of an email, oldest first
+   */
+  async findByEmailRecordId(emailRecordId: string): Promise<AiAnalysis[]> {
+    return this.prisma.aiAnalysis.findMany({
+      where: { emailRecordId },
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+}
@@ -0,0 +1,80 @@
+import { AvailabilityOverride, AvailabilityOverrideType, AvailabilityWindow, Prisma } from '@prisma/client';
+import { BaseRepository } from './BaseRepository';
+
+export interface AvailabilityWindowData {
+  weekday: number;
+  startTime: string;
+  endTime: string;
+}
+
+export interface CreateAvailabilityOverrideData {
+  userId: string;
+  startDate: string;
+  endDate: string;
+  type: AvailabilityOverrideType;
+  intervals: Prisma.InputJsonValue;
+  reason?: string;
+}
+
+export class AvailabilityRepository extends BaseRepository<AvailabilityOverride> {
+
+  async findWindowsByUser(userId: string): Promise<AvailabilityWindow[]> {
+    return this.prisma.availabilityWindow.findMany({
+      where: { userId },
+      orderBy: [{ weekday: 'asc' }, { startTime: 'asc' }]
+    });
+  }
+
+  /**
+   * Replace the user's whole weekly schedule in one transaction
+   */
+  async replaceWindows(userId: string, windows: AvailabilityWindowData[]): Promise<AvailabilityWindow[]> {
+    return this.executeInTransaction(async (tx) => {
+      await tx.availabilityWindow.deleteMany({
+        where: { userId }
+      });
+
+      if (windows.length > 0) {
+        await tx.availabilityWindow.createMany({
+          data: windows.map(window => ({ userId, ...window }))
+        });
+      }
+
+      return tx.availabilityWindow.findMany({
+        where: { userId },
+        orderBy: [{ weekday: 'asc' }, { startTime: 'asc' }]
+      });
+    });
+  }
+
+  async create(data: CreateAvailabilityOverrideData): Promise<AvailabilityOverride> {
+    return this.prisma.availabilityOverride.create({
+      data
+    });
+  }
+
+  async findById(id: string): Promise<AvailabilityOverride | null> {
+    return this.prisma.availabilityOverride.findUnique({
+      where: { id }
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.prisma.availabilityOverride.delete({
+      where: { id }
+    });
+  }
+
+  /**
+   * Overrides for a user, optionally only those ending on or after a local date ("YYYY-MM-DD")
+   */
+  async findOverridesByUser(userId: string, fromDate?: string): Promise<AvailabilityOverride[]> {
+    return this.prisma.availabilityOverride.findMany({
+      where: {
+        userId,
+        ...(fromDate && { endDate: { gte: fromDate } })
+      },
+      orderBy: { startDate: 'asc' }
+    });
+  }
+}
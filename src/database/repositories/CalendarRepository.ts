@@ -14,6 +14,9 @@ export interface CreateCalendarEventData {
   location?: string;
   attendeeEmail: string;
   attendeeName?: string;
+  status?: CalendarEventStatus;
+  scheduledResponseId?: string;
+  holdExpiresAt?: Date;
 }
 
 export interface UpdateCalendarEventData {
@@ -216,6 +219,20 @@ export class CalendarRepository extends BaseRepository<CalendarEventRecord> {
     });
   }
 
+  /**
+   * Booked meetings with the attendee that haven't started yet, soonest first
+   */
+  async findUpcomingMeetingsWith(userId: string, attendeeEmail: string): Promise<CalendarEventRecord[]> {
+    return this.findMany({
+      userId,
+      attendeeEmail,
+      status: CalendarEventStatus.CONFIRMED,
+      startDate: new Date(),
+      sortBy: 'startTime',
+      sortOrder: 'asc'
+    });
+  }
+
   async findEventsInTimeRange(
     userId: string,
     startTime: Date,
@@ -258,6 +275,8 @@ export class CalendarRepository extends BaseRepository<CalendarEventRecord> {
       where: {
         userId,
         attendeeEmail,
+        // Tentative holds on proposed slots are not booked meetings
+        status: { not: CalendarEventStatus.TENTATIVE },
         emailRecord: {
           gmailThreadId: threadId
         }
@@ -269,6 +288,27 @@ export class CalendarRepository extends BaseRepository<CalendarEventRecord> {
   }
 
 
+  async findHoldsByScheduledResponse(scheduledResponseId: string): Promise<CalendarEventRecord[]> {
+    return this.prisma.calendarEventRecord.findMany({
+      where: {
+        scheduledResponseId,
+        status: CalendarEventStatus.TENTATIVE
+      },
+      orderBy: { startTime: 'asc' }
+    });
+  }
+
+  async findExpiredHolds(now: Date = new Date(), limit: number = 100): Promise<CalendarEventRecord[]> {
+    return this.prisma.calendarEventRecord.findMany({
+      where: {
+        status: CalendarEventStatus.TENTATIVE,
+        holdExpiresAt: { lte: now }
+      },
+      orderBy: { holdExpiresAt: 'asc' },
+      take: limit
+    });
+  }
+
   async markEventCancelled(id: string): Promise<CalendarEventRecord> {
     return this.update(id, {
       status: CalendarEventStatus.CANCELLED
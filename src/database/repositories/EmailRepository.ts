@@ -1,4 +1,5 @@
-import { EmailRecord, ProcessingStatus, EmailDirection, Prisma } from '@prisma/client';
+import { AgentToolStep } from '@/types';
+import { AiToolStep, EmailIntent, EmailRecord, IntentAction, ProcessingStatus, EmailDirection, Prisma, SlotAcceptanceOutcome } from '@prisma/client';
 import { BaseRepository } from './BaseRepository';
 
 export interface CreateEmailData {
@@ -22,6 +23,16 @@ export interface UpdateEmailData {
   responseGenerated?: boolean;
   responseSent?: boolean;
   responseMessageId?: string;
+  acceptanceOutcome?: SlotAcceptanceOutcome;
+  acceptedSlotStart?: Date;
+  acceptedSlotEnd?: Date;
+  pendingReason?: string | null;
+  flaggedForReview?: boolean;
+  suspectedInjection?: boolean;
+  injectionSignals?: string[];
+  intent?: EmailIntent;
+  urgency?: string;
+  intentAction?: IntentAction;
 }
 
 export interface EmailSearchOptions {
@@ -29,6 +40,7 @@ export interface EmailSearchOptions {
   processingStatus?: ProcessingStatus;
   direction?: EmailDirection;
   isDemoRequest?: boolean;
+  intent?: EmailIntent;
   responseGenerated?: boolean;
   responseSent?: boolean;
   startDate?: Date;
@@ -103,6 +115,7 @@ export class EmailRepository extends BaseRepository<EmailRecord> {
     if (options?.processingStatus) where.processingStatus = options.processingStatus;
     if (options?.direction) where.direction = options.direction;
     if (options?.isDemoRequest !== undefined) where.isDemoRequest = options.isDemoRequest;
+    if (options?.intent) where.intent = options.intent;
     if (options?.responseGenerated !== undefined) where.responseGenerated = options.responseGenerated;
     if (options?.responseSent !== undefined) where.responseSent = options.responseSent;
 
@@ -141,6 +154,21 @@ export class EmailRepository extends BaseRepository<EmailRecord> {
     });
   }
 
+  /**
+   * PENDING emails left unprocessed for a reason starting with `reasonPrefix`, oldest first
+   */
+  async findPendingByReason(userId: string, reasonPrefix: string, limit: number = 10): Promise<EmailRecord[]> {
+    return this.prisma.emailRecord.findMany({
+      where: {
+        userId,
+        processingStatus: ProcessingStatus.PENDING,
+        pendingReason: { startsWith: reasonPrefix }
+      },
+      take: limit,
+      orderBy: { receivedAt: 'asc' }
+    });
+  }
+
   async findFailedEmails(userId?: string, limit: number = 10): Promise<EmailRecord[]> {
     return this.findMany({
       userId,
@@ -193,13 +221,25 @@ export class EmailRepository extends BaseRepository<EmailRecord> {
     return this.update(id, {
       processingStatus: ProcessingStatus.COMPLETED,
       processedAt: new Date(),
+      pendingReason: null,
       ...(isDemoRequest !== undefined && { isDemoRequest })
     });
   }
 
   async markAsFailed(id: string): Promise<EmailRecord> {
     return this.update(id, {
-      processingStatus: ProcessingStatus.FAILED
+      processingStatus: ProcessingStatus.FAILED,
+      pendingReason: null
+    });
+  }
+
+  /**
+   * Leave the email unprocessed, e.g. when the user's AI budget is spent
+   */
+  async markAsPending(id: string, reason: string): Promise<EmailRecord> {
+    return this.update(id, {
+      processingStatus: ProcessingStatus.PENDING,
+      pendingReason: reason
     });
   }
 
@@ -315,4 +355,32 @@ export class EmailRepository extends BaseRepository<EmailRecord> {
 
     return result.count;
   }
-}
\ No newline at end of file
+
+  async recordToolStep(emailRecordId: string, step: AgentToolStep): Promise<AiToolStep> {
+    return this.prisma.aiToolStep.create({
+      data: {
+        emailRecordId,
+        attempt: step.attempt,
+        round: step.round,
+        toolName: step.toolName,
+        arguments: step.arguments ?? Prisma.JsonNull,
+        result: step.result === undefined ? Prisma.JsonNull : this.toJson(step.result),
+        error: step.error,
+        latencyMs: step.latencyMs,
+        startedAt: step.startedAt
+      }
+    });
+  }
+
+  async findToolSteps(emailRecordId: string): Promise<AiToolStep[]> {
+    return this.prisma.aiToolStep.findMany({
+      where: { emailRecordId },
+      orderBy: { startedAt: 'asc' }
+    });
+  }
+
+  // Tool results hold Dates and class instances; store their JSON form
+  private toJson(value: any): Prisma.InputJsonValue {
+    return JSON.parse(JSON.stringify(value));
+  }
+}
@@ -0,0 +1,246 @@
+import { BackgroundJob, BackgroundJobStatus, BackgroundJobType, Prisma } from '@prisma/client';
+import { JobQueueStats } from '@/types';
+import { BaseRepository } from './BaseRepository';
+
+export interface EnqueueJobData {
+  type: BackgroundJobType;
+  payload: Prisma.InputJsonValue;
+  dedupeKey?: string;
+  maxAttempts?: number;
+  runAt?: Date;
+}
+
+const PENDING_STATUSES = [BackgroundJobStatus.QUEUED, BackgroundJobStatus.FAILED];
+
+export class JobRepository extends BaseRepository<BackgroundJob> {
+
+  async create(data: EnqueueJobData): Promise<BackgroundJob> {
+    return this.prisma.backgroundJob.create({
+      data: {
+        type: data.type,
+        payload: data.payload,
+        dedupeKey: data.dedupeKey,
+        maxAttempts: data.maxAttempts,
+        runAt: data.runAt
+      }
+    });
+  }
+
+  async findById(id: string): Promise<BackgroundJob | null> {
+    return this.prisma.backgroundJob.findUnique({
+      where: { id }
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.prisma.backgroundJob.delete({
+      where: { id }
+    });
+  }
+
+  /**
+   * Enqueue a job, returning the already pending job when one exists for the same dedupe key.
+   * A transaction-scoped advisory lock on the key serializes concurrent enqueues across instances.
+   */
+  async enqueue(data: EnqueueJobData): Promise<BackgroundJob> {
+    const dedupeKey = data.dedupeKey;
+    if (!dedupeKey) {
+      return this.create(data);
+    }
+
+    return this.executeInTransaction(async (tx) => {
+      await tx.$queryRaw`SELECT pg_advisory_xact_lock(hashtext(${dedupeKey}))::text`;
+
+      const pending = await tx.backgroundJob.findFirst({
+        where: {
+          dedupeKey,
+          status: { in: PENDING_STATUSES }
+        }
+      });
+
+      if (pending) {
+        return pending;
+      }
+
+      return tx.backgroundJob.create({
+        data: {
+          type: data.type,
+          payload: data.payload,
+          dedupeKey,
+          maxAttempts: data.maxAttempts,
+          runAt: data.runAt
+        }
+      });
+    });
+  }
+
+  /**
+   * Atomically lease the next due job of the given types.
+   * Picks queued jobs, failed jobs whose backoff has elapsed, and running jobs whose lease expired
+   * (crashed worker). Jobs whose dedupe key is already running elsewhere are left for later;
+   * the advisory lock keeps two instances from claiming jobs with the same key at the same moment.
+   */
+  async claimNext(types: BackgroundJobType[], workerId: string, leaseMs: number): Promise<BackgroundJob | null> {
+    if (types.length === 0) {
+      return null;
+    }
+
+    const now = new Date();
+    const leaseExpiresAt = new Date(now.getTime() + leaseMs);
+
+    const jobs = await this.prisma.$queryRaw<BackgroundJob[]>`
+      UPDATE "background_jobs"
+      SET "status" = 'RUNNING',
+          "attempts" = "attempts" + 1,
+          "lockedBy" = ${workerId},
+          "lockedAt" = ${now},
+          "leaseExpiresAt" = ${leaseExpiresAt},
+          "updatedAt" = ${now}
+      WHERE "id" = (
+        SELECT j."id" FROM "background_jobs" j
+        WHERE j."type"::text IN (${Prisma.join(types)})
+          AND (
+            (j."status" IN ('QUEUED', 'FAILED') AND j."runAt" <= ${now})
+            OR (j."status" = 'RUNNING' AND j."leaseExpiresAt" < ${now})
+          )
+          AND (
+            j."dedupeKey" IS NULL
+            OR NOT EXISTS (
+              SELECT 1 FROM "background_jobs" r
+              WHERE r."dedupeKey" = j."dedupeKey"
+                AND r."id" <> j."id"
+                AND r."status" = 'RUNNING'
+                AND r."leaseExpiresAt" >= ${now}
+            )
+          )
+          AND (j."dedupeKey" IS NULL OR pg_try_advisory_xact_lock(hashtext(j."dedupeKey")))
+        ORDER BY j."runAt" ASC
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `;
+
+    return jobs[0] || null;
+  }
+
+  /**
+   * Extend the lease of a running job. Returns false when the lease was lost to another worker.
+   */
+  async extendLease(id: string, workerId: string, leaseMs: number): Promise<boolean> {
+    const result = await this.prisma.backgroundJob.updateMany({
+      where: {
+        id,
+        lockedBy: workerId,
+        status: BackgroundJobStatus.RUNNING
+      },
+      data: {
+        leaseExpiresAt: new Date(Date.now() + leaseMs)
+      }
+    });
+
+    return result.count > 0;
+  }
+
+  async markSucceeded(id: string, workerId: string): Promise<void> {
+    await this.prisma.backgroundJob.updateMany({
+      where: { id, lockedBy: workerId },
+      data: {
+        status: BackgroundJobStatus.SUCCEEDED,
+        completedAt: new Date(),
+        lockedBy: null,
+        lockedAt: null,
+        leaseExpiresAt: null,
+        lastError: null
+      }
+    });
+  }
+
+  /**
+   * Record a failed attempt: schedule a retry with exponential backoff,
+   * or move the job to the dead-letter state once its attempts are exhausted
+   */
+  async markFailed(job: BackgroundJob, workerId: string, error: string, retryDelayMs: number): Promise<BackgroundJobStatus> {
+    const exhausted = job.attempts >= job.maxAttempts;
+    const status = exhausted ? BackgroundJobStatus.DEAD : BackgroundJobStatus.FAILED;
+    const backoffMs = retryDelayMs * Math.pow(2, Math.max(job.attempts - 1, 0));
+
+    await this.prisma.backgroundJob.updateMany({
+      where: { id: job.id, lockedBy: workerId },
+      data: {
+        status,
+        lastError: error,
+        runAt: exhausted ? job.runAt : new Date(Date.now() + backoffMs),
+        completedAt: exhausted ? new Date() : null,
+        lockedBy: null,
+        lockedAt: null,
+        leaseExpiresAt: null
+      }
+    });
+
+    return status;
+  }
+
+  async countActive(type: BackgroundJobType): Promise<number> {
+    return this.prisma.backgroundJob.count({
+      where: {
+        type,
+        status: { in: [...PENDING_STATUSES, BackgroundJobStatus.RUNNING] }
+      }
+    });
+  }
+
+  async getStats(type?: BackgroundJobType): Promise<JobQueueStats> {
+    const groups = await this.prisma.backgroundJob.groupBy({
+      by: ['status'],
+      where: type ? { type } : {},
+      _count: { id: true }
+    });
+
+    const countFor = (status: BackgroundJobStatus) =>
+      groups.find(group => group.status === status)?._count.id || 0;
+
+    return {
+      queued: countFor(BackgroundJobStatus.QUEUED),
+      running: countFor(BackgroundJobStatus.RUNNING),
+      succeeded: countFor(BackgroundJobStatus.SUCCEEDED),
+      failed: countFor(BackgroundJobStatus.FAILED),
+      dead: countFor(BackgroundJobStatus.DEAD)
+    };
+  }
+
+  async findLastCompletedAt(type: BackgroundJobType): Promise<Date | null> {
+    const job = await this.prisma.backgroundJob.findFirst({
+      where: {
+        type,
+        status: BackgroundJobStatus.SUCCEEDED
+      },
+      orderBy: { completedAt: 'desc' },
+      select: { completedAt: true }
+    });
+
+    return job?.completedAt || null;
+  }
+
+  async findDeadJobs(limit: number = 50): Promise<BackgroundJob[]> {
+    return this.prisma.backgroundJob.findMany({
+      where: { status: BackgroundJobStatus.DEAD },
+      orderBy: { completedAt: 'desc' },
+      take: limit
+    });
+  }
+
+  /**
+   * Remove succeeded jobs older than the given date to keep the table small
+   */
+  async deleteSucceededBefore(date: Date): Promise<number> {
+    const result = await this.prisma.backgroundJob.deleteMany({
+      where: {
+        status: BackgroundJobStatus.SUCCEEDED,
+        completedAt: { lt: date }
+      }
+    });
+
+    return result.count;
+  }
+}
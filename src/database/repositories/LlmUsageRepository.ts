@@ -0,0 +1,65 @@
+import { LLMUsagePurpose } from '@/types';
+import { LlmUsage } from '@prisma/client';
+import { BaseRepository } from './BaseRepository';
+
+export interface CreateLlmUsageData {
+  userId: string | null;
+  provider: string;
+  model: string;
+  purpose: LLMUsagePurpose;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LlmTokenTotals {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  completions: number;
+}
+
+export class LlmUsageRepository extends BaseRepository<LlmUsage> {
+
+  async record(data: CreateLlmUsageData): Promise<LlmUsage> {
+    return this.prisma.llmUsage.create({ data });
+  }
+
+  /**
+   * Token totals per model since `since`
+   */
+  async sumByModel(userId: string, since: Date): Promise<LlmTokenTotals[]> {
+    const groups = await this.prisma.llmUsage.groupBy({
+      by: ['model'],
+      where: {
+        userId,
+        createdAt: { gte: since }
+      },
+      _sum: { inputTokens: true, outputTokens: true },
+      _count: { id: true }
+    });
+
+    return groups.map(group => ({
+      model: group.model,
+      inputTokens: group._sum.inputTokens || 0,
+      outputTokens: group._sum.outputTokens || 0,
+      completions: group._count.id
+    }));
+  }
+
+  /**
+   * Token totals per UTC day and model since `since`, oldest day first
+   */
+  async sumByDayAndModel(userId: string, since: Date): Promise<Array<LlmTokenTotals & { day: Date }>> {
+    return this.prisma.$queryRaw<Array<LlmTokenTotals & { day: Date }>>`
+      SELECT date_trunc('day', "createdAt") AS "day",
+             "model",
+             SUM("inputTokens")::int AS "inputTokens",
+             SUM("outputTokens")::int AS "outputTokens",
+             COUNT(*)::int AS "completions"
+      FROM "llm_usage"
+      WHERE "userId" = ${userId} AND "createdAt" >= ${since}
+      GROUP BY 1, 2
+      ORDER BY 1, 2
+    `;
+  }
+}
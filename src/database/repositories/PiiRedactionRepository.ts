@@ -0,0 +1,28 @@
+import { LLMUsagePurpose, PiiRedactionCounts } from '@/types';
+import { PiiRedactionLog } from '@prisma/client';
+import { BaseRepository } from './BaseRepository';
+
+export interface CreatePiiRedactionData {
+  userId: string | null;
+  purpose: LLMUsagePurpose;
+  messageId: string | null;
+  counts: PiiRedactionCounts;
+  total: number;
+}
+
+export class PiiRedactionRepository extends BaseRepository<PiiRedactionLog> {
+
+  async record(data: CreatePiiRedactionData): Promise<PiiRedactionLog> {
+    return this.prisma.piiRedactionLog.create({ data });
+  }
+
+  async findByUserSince(userId: string, since: Date): Promise<PiiRedactionLog[]> {
+    return this.prisma.piiRedactionLog.findMany({
+      where: {
+        userId,
+        createdAt: { gte: since }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+}
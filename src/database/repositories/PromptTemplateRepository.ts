@@ -0,0 +1,99 @@
+import { PromptTemplate } from '@prisma/client';
+import { BaseRepository } from './BaseRepository';
+
+export interface CreatePromptTemplateVersionData {
+  userId: string;
+  name: string;
+  body: string;
+  note?: string;
+  activate: boolean;
+}
+
+export class PromptTemplateRepository extends BaseRepository<PromptTemplate> {
+
+  async findById(id: string): Promise<PromptTemplate | null> {
+    return this.prisma.promptTemplate.findUnique({
+      where: { id }
+    });
+  }
+
+  async findActive(userId: string, name: string): Promise<PromptTemplate | null> {
+    return this.prisma.promptTemplate.findFirst({
+      where: { userId, name, isActive: true }
+    });
+  }
+
+  async findVersion(userId: string, name: string, version: number): Promise<PromptTemplate | null> {
+    return this.prisma.promptTemplate.findUnique({
+      where: { userId_name_version: { userId, name, version } }
+    });
+  }
+
+  /**
+   * Version history, newest first
+   */
+  async findVersions(userId: string, name?: string): Promise<PromptTemplate[]> {
+    return this.prisma.promptTemplate.findMany({
+      where: { userId, ...(name ? { name } : {}) },
+      orderBy: [{ name: 'asc' }, { version: 'desc' }]
+    });
+  }
+
+  /**
+   * Append the next version number for the template, optionally making it the only active one
+   */
+  async createVersion(data: CreatePromptTemplateVersionData): Promise<PromptTemplate> {
+    return this.executeInTransaction(async (tx) => {
+      const latest = await tx.promptTemplate.findFirst({
+        where: { userId: data.userId, name: data.name },
+        orderBy: { version: 'desc' }
+      });
+
+      if (data.activate) {
+        await tx.promptTemplate.updateMany({
+          where: { userId: data.userId, name: data.name, isActive: true },
+          data: { isActive: false }
+        });
+      }
+
+      return tx.promptTemplate.create({
+        data: {
+          userId: data.userId,
+          name: data.name,
+          version: (latest?.version || 0) + 1,
+          body: data.body,
+          note: data.note,
+          isActive: data.activate
+        }
+      });
+    });
+  }
+
+  async activateVersion(userId: string, name: string, version: number): Promise<PromptTemplate | null> {
+    return this.executeInTransaction(async (tx) => {
+      const template = await tx.promptTemplate.findUnique({
+        where: { userId_name_version: { userId, name, version } }
+      });
+      if (!template) {
+        return null;
+      }
+
+      await tx.promptTemplate.updateMany({
+        where: { userId, name, isActive: true },
+        data: { isActive: false }
+      });
+
+      return tx.promptTemplate.update({
+        where: { id: template.id },
+        data: { isActive: true }
+      });
+    });
+  }
+
+  async deactivateAll(userId: string, name: string): Promise<void> {
+    await this.prisma.promptTemplate.updateMany({
+      where: { userId, name, isActive: true },
+      data: { isActive: false }
+    });
+  }
+}
@@ -0,0 +1,29 @@
+import { ReplyStyleProfile } from '@prisma/client';
+import { BaseRepository } from './BaseRepository';
+
+export interface ReplyStyleProfileData {
+  greeting: string | null;
+  signOff: string | null;
+  lengthRatio: number | null;
+  targetWordCount: number | null;
+  preferredPhrases: string[];
+  avoidedPhrases: string[];
+  sampleSize: number;
+}
+
+export class ReplyStyleProfileRepository extends BaseRepository<ReplyStyleProfile> {
+
+  async findByUserId(userId: string): Promise<ReplyStyleProfile | null> {
+    return this.prisma.replyStyleProfile.findUnique({
+      where: { userId }
+    });
+  }
+
+  async upsert(userId: string, data: ReplyStyleProfileData): Promise<ReplyStyleProfile> {
+    return this.prisma.replyStyleProfile.upsert({
+      where: { userId },
+      create: { userId, ...data },
+      update: data
+    });
+  }
+}
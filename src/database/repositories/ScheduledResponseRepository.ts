@@ -11,6 +11,12 @@ export interface CreateScheduledResponseData {
   proposedTimeSlots: Prisma.InputJsonValue;
   scheduledAt: Date;
   status: ResponseStatus;
+  promptTemplateId?: string | null;
+  promptVersion?: number;
+  confidence?: number;
+  requiresApproval?: boolean;
+  validationReport?: Prisma.InputJsonValue;
+  prospectTimeZone?: string;
 }
 
 export interface UpdateScheduledResponseData {
@@ -23,8 +29,23 @@ export interface UpdateScheduledResponseData {
   sentMessageId?: string;
   lastEditedAt?: Date;
   editedBy?: string;
+  requiresApproval?: boolean;
+  approvedAt?: Date | null;
+  approvedBy?: string | null;
+  validationReport?: Prisma.InputJsonValue;
 }
 
+// Responses being sent (or already sent) can no longer be changed
+export const LOCKED_STATUSES: ResponseStatus[] = [ResponseStatus.SENDING, ResponseStatus.SENT];
+
+// Drafts that require approval are only sendable once approved
+const APPROVED_OR_NOT_REQUIRED: Prisma.ScheduledResponseWhereInput = {
+  OR: [
+    { requiresApproval: false },
+    { approvedAt: { not: null } }
+  ]
+};
+
 export class ScheduledResponseRepository extends BaseRepository<ScheduledResponse> {
   
   async delete(id: string): Promise<void> {
@@ -43,7 +64,10 @@ export class ScheduledResponseRepository extends BaseRepository<ScheduledRespons
   
   async create(data: CreateScheduledResponseData): Promise<ScheduledResponse> {
     return this.prisma.scheduledResponse.create({
-      data
+      data: {
+        ...data,
+        originalBody: data.body
+      }
     });
   }
 
@@ -75,6 +99,29 @@ export class ScheduledResponseRepository extends BaseRepository<ScheduledRespons
     });
   }
 
+  /**
+   * Update a response unless it is locked, checked in the same query so the sender can't claim
+   * it in between. Returns null when it is locked or missing.
+   */
+  async updateUnlessLocked(id: string, data: UpdateScheduledResponseData): Promise<ScheduledResponse | null> {
+    const result = await this.prisma.scheduledResponse.updateMany({
+      where: {
+        id,
+        status: { notIn: LOCKED_STATUSES }
+      },
+      data: {
+        ...data,
+        updatedAt: new Date()
+      }
+    });
+
+    if (result.count === 0) {
+      return null;
+    }
+
+    return this.findById(id);
+  }
+
   async findReadyToSend(limit: number = 10): Promise<ScheduledResponse[]> {
     const now = new Date();
     
@@ -83,7 +130,8 @@ export class ScheduledResponseRepository extends BaseRepository<ScheduledRespons
         status: ResponseStatus.SCHEDULED,
         scheduledAt: {
           lte: now
-        }
+        },
+        ...APPROVED_OR_NOT_REQUIRED
       },
       orderBy: {
         scheduledAt: 'asc'
@@ -99,12 +147,71 @@ export class ScheduledResponseRepository extends BaseRepository<ScheduledRespons
     });
   }
 
+  /**
+   * Atomically move a response from SCHEDULED to SENDING. Returns null when another
+   * worker already claimed it, it was edited/cancelled in the meantime, or it still needs approval.
+   */
+  async claimForSending(id: string): Promise<ScheduledResponse | null> {
+    const result = await this.prisma.scheduledResponse.updateMany({
+      where: {
+        id,
+        status: ResponseStatus.SCHEDULED,
+        ...APPROVED_OR_NOT_REQUIRED
+      },
+      data: {
+        status: ResponseStatus.SENDING,
+        updatedAt: new Date()
+      }
+    });
+
+    if (result.count === 0) {
+      return null;
+    }
+
+    return this.findById(id);
+  }
+
+  /**
+   * Return a claimed response to SCHEDULED after a send attempt that did not reach Gmail
+   */
+  async releaseSendingClaim(id: string): Promise<void> {
+    await this.prisma.scheduledResponse.updateMany({
+      where: {
+        id,
+        status: ResponseStatus.SENDING
+      },
+      data: {
+        status: ResponseStatus.SCHEDULED,
+        updatedAt: new Date()
+      }
+    });
+  }
+
+  /**
+   * Responses stuck in SENDING (worker crashed mid-send) are failed rather than retried,
+   * since the email may already have gone out
+   */
+  async markStaleSendingAsFailed(olderThan: Date): Promise<number> {
+    const result = await this.prisma.scheduledResponse.updateMany({
+      where: {
+        status: ResponseStatus.SENDING,
+        updatedAt: { lt: olderThan }
+      },
+      data: {
+        status: ResponseStatus.FAILED,
+        updatedAt: new Date()
+      }
+    });
+
+    return result.count;
+  }
+
   async findDraftsByUser(userId: string): Promise<ScheduledResponse[]> {
     return this.prisma.scheduledResponse.findMany({
       where: {
         userId,
         status: {
-          in: [ResponseStatus.DRAFT, ResponseStatus.SCHEDULED, ResponseStatus.EDITING]
+          in: [ResponseStatus.DRAFT, ResponseStatus.SCHEDULED, ResponseStatus.SENDING, ResponseStatus.EDITING]
         }
       },
       orderBy: {
@@ -130,14 +237,44 @@ export class ScheduledResponseRepository extends BaseRepository<ScheduledRespons
     });
   }
 
+  /**
+   * Approve a draft and schedule it; a send time already in the past becomes now
+   */
+  async approve(id: string, approvedBy?: string): Promise<ScheduledResponse | null> {
+    const now = new Date();
+    const result = await this.prisma.scheduledResponse.updateMany({
+      where: {
+        id,
+        status: { in: [ResponseStatus.DRAFT, ResponseStatus.EDITING] }
+      },
+      data: {
+        status: ResponseStatus.SCHEDULED,
+        approvedAt: now,
+        approvedBy,
+        updatedAt: now
+      }
+    });
+
+    if (result.count === 0) {
+      return null;
+    }
+
+    await this.prisma.scheduledResponse.updateMany({
+      where: { id, scheduledAt: { lt: now } },
+      data: { scheduledAt: now }
+    });
+
+    return this.findById(id);
+  }
+
   async markAsScheduled(id: string): Promise<ScheduledResponse> {
     return this.update(id, {
       status: ResponseStatus.SCHEDULED
     });
   }
 
-  async cancel(id: string): Promise<ScheduledResponse> {
-    return this.update(id, {
+  async cancel(id: string): Promise<ScheduledResponse | null> {
+    return this.updateUnlessLocked(id, {
       status: ResponseStatus.CANCELLED
     });
   }
@@ -148,6 +285,34 @@ export class ScheduledResponseRepository extends BaseRepository<ScheduledRespons
     });
   }
 
+  async findLastSentAt(): Promise<Date | null> {
+    const response = await this.prisma.scheduledResponse.findFirst({
+      where: {
+        status: ResponseStatus.SENT,
+        sentAt: { not: null }
+      },
+      orderBy: { sentAt: 'desc' },
+      select: { sentAt: true }
+    });
+
+    return response?.sentAt || null;
+  }
+
+  /**
+   * The user's most recently edited responses that still have their generated body
+   */
+  async findEditedByUser(userId: string, limit: number): Promise<ScheduledResponse[]> {
+    return this.prisma.scheduledResponse.findMany({
+      where: {
+        userId,
+        lastEditedAt: { not: null },
+        originalBody: { not: null }
+      },
+      orderBy: { lastEditedAt: 'desc' },
+      take: limit
+    });
+  }
+
   async findByEmailRecordId(emailRecordId: string): Promise<ScheduledResponse | null> {
     return this.prisma.scheduledResponse.findFirst({
       where: { emailRecordId },
@@ -0,0 +1,39 @@
+import { SchedulerLease } from '@prisma/client';
+import { BaseRepository } from './BaseRepository';
+
+export class SchedulerLeaseRepository extends BaseRepository<SchedulerLease> {
+
+  async findById(name: string): Promise<SchedulerLease | null> {
+    return this.prisma.schedulerLease.findUnique({
+      where: { name }
+    });
+  }
+
+  /**
+   * Take or renew the named lease. Succeeds when the lease is free, expired, or already ours.
+   */
+  async tryAcquire(name: string, holderId: string, ttlMs: number): Promise<boolean> {
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + ttlMs);
+
+    const rows = await this.prisma.$queryRaw<Array<{ holderId: string }>>`
+      INSERT INTO "scheduler_leases" ("name", "holderId", "expiresAt", "updatedAt")
+      VALUES (${name}, ${holderId}, ${expiresAt}, ${now})
+      ON CONFLICT ("name") DO UPDATE
+      SET "holderId" = EXCLUDED."holderId",
+          "expiresAt" = EXCLUDED."expiresAt",
+          "updatedAt" = EXCLUDED."updatedAt"
+      WHERE "scheduler_leases"."holderId" = EXCLUDED."holderId"
+         OR "scheduler_leases"."expiresAt" < ${now}
+      RETURNING "holderId"
+    `;
+
+    return rows.length > 0;
+  }
+
+  async release(name: string, holderId: string): Promise<void> {
+    await this.prisma.schedulerLease.deleteMany({
+      where: { name, holderId }
+    });
+  }
+}
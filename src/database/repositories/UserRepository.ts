@@ -29,6 +29,19 @@ export interface UpdateUserData {
   timezone?: string;
   meetingDuration?: number;
   bufferTime?: number;
+  proposedSlotCount?: number;
+  maxSlotsPerDay?: number;
+  minSlotGapMinutes?: number;
+  holdProposedSlots?: boolean;
+  holdTtlHours?: number;
+  llmProvider?: string | null;
+  llmModel?: string | null;
+  monthlyAiBudgetUsd?: number | null;
+  autoSendMinConfidence?: number;
+  draftMinConfidence?: number;
+  piiRedactionCategories?: string[];
+  bannedReplyPhrases?: string[];
+  locale?: string;
 }
 
 export interface UserWithTokens extends User {
@@ -131,6 +144,16 @@ export class UserRepository extends BaseRepository<User> {
     });
   }
 
+  async updateGmailSyncState(userId: string, data: {
+    gmailHistoryId?: string | null;
+    gmailWatchExpiresAt?: Date | null;
+  }): Promise<GoogleTokens> {
+    return this.prisma.googleTokens.update({
+      where: { userId },
+      data
+    });
+  }
+
   async deleteGoogleTokens(userId: string): Promise<void> {
     await this.prisma.googleTokens.delete({
       where: { userId }
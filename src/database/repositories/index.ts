@@ -1,14 +1,26 @@
 import { UserRepository } from './UserRepository';
 import { EmailRepository } from './EmailRepository';
 import { CalendarRepository } from './CalendarRepository';
+import { AvailabilityRepository } from './AvailabilityRepository';
+import { PromptTemplateRepository } from './PromptTemplateRepository';
+import { AiAnalysisRepository } from './AiAnalysisRepository';
+import { LlmUsageRepository } from './LlmUsageRepository';
+import { ReplyStyleProfileRepository } from './ReplyStyleProfileRepository';
+import { PiiRedactionRepository } from './PiiRedactionRepository';
 
 // Create singleton instances
 export const userRepository = new UserRepository();
 export const emailRepository = new EmailRepository();
 export const calendarRepository = new CalendarRepository();
+export const availabilityRepository = new AvailabilityRepository();
+export const promptTemplateRepository = new PromptTemplateRepository();
+export const aiAnalysisRepository = new AiAnalysisRepository();
+export const llmUsageRepository = new LlmUsageRepository();
+export const replyStyleProfileRepository = new ReplyStyleProfileRepository();
+export const piiRedactionRepository = new PiiRedactionRepository();
 
 // Re-export repositories and types
-export { UserRepository, EmailRepository, CalendarRepository };
+export { UserRepository, EmailRepository, CalendarRepository, AvailabilityRepository, PromptTemplateRepository, AiAnalysisRepository, LlmUsageRepository, ReplyStyleProfileRepository, PiiRedactionRepository };
 export type { 
   CreateUserData, 
   UpdateUserData, 
@@ -23,4 +35,21 @@ export type {
   CreateCalendarEventData,
   UpdateCalendarEventData,
   CalendarEventSearchOptions
-} from './CalendarRepository';
\ No newline at end of file
+} from './CalendarRepository';
+export type {
+  AvailabilityWindowData,
+  CreateAvailabilityOverrideData
+} from './AvailabilityRepository';
+export type {
+  CreatePromptTemplateVersionData
+} from './PromptTemplateRepository';
+export type {
+  CreateLlmUsageData,
+  LlmTokenTotals
+} from './LlmUsageRepository';
+export type {
+  ReplyStyleProfileData
+} from './ReplyStyleProfileRepository';
+export type {
+  CreatePiiRedactionData
+} from './PiiRedactionRepository';
@@ -0,0 +1,79 @@
+/**
+ * In-memory stand-in for the parts of the Google Calendar v3 client CalendarService uses
+ * (freebusy.query, events.list/insert/delete), so the evaluation runs against fixed busy
+ * blocks without touching a real calendar. Events created during a run are kept in `created`.
+ */
+
+export interface FakeCalendarEvent {
+  id: string;
+  summary: string;
+  start: Date;
+  end: Date;
+  location?: string;
+}
+
+export class FakeCalendarApi {
+  readonly created: any[] = [];
+  private store: FakeCalendarEvent[];
+  private nextId = 1;
+
+  constructor(events: FakeCalendarEvent[]) {
+    this.store = [...events];
+  }
+
+  readonly freebusy = {
+    query: async ({ requestBody }: { requestBody: { timeMin: string; timeMax: string } }) => ({
+      data: {
+        calendars: {
+          primary: {
+            busy: this.inRange(requestBody.timeMin, requestBody.timeMax).map(event => ({
+              start: event.start.toISOString(),
+              end: event.end.toISOString()
+            }))
+          }
+        }
+      }
+    })
+  };
+
+  readonly events = {
+    list: async ({ timeMin, timeMax }: { timeMin: string; timeMax: string }) => ({
+      data: {
+        items: this.inRange(timeMin, timeMax).map(event => ({
+          id: event.id,
+          summary: event.summary,
+          location: event.location,
+          status: 'confirmed',
+          start: { dateTime: event.start.toISOString() },
+          end: { dateTime: event.end.toISOString() }
+        }))
+      }
+    }),
+
+    insert: async ({ requestBody }: { requestBody: any }) => {
+      const event = { ...requestBody, id: `fake-${this.nextId++}`, status: requestBody.status || 'confirmed' };
+      this.created.push(event);
+      this.store.push({
+        id: event.id,
+        summary: event.summary || 'Busy',
+        start: new Date(event.start.dateTime),
+        end: new Date(event.end.dateTime),
+        location: event.location
+      });
+      return { data: event };
+    },
+
+    delete: async ({ eventId }: { eventId: string }) => {
+      this.store = this.store.filter(event => event.id !== eventId);
+      return { data: {} };
+    }
+  };
+
+  private inRange(timeMin: string, timeMax: string): FakeCalendarEvent[] {
+    const min = new Date(timeMin);
+    const max = new Date(timeMax);
+    return this.store
+      .filter(event => event.start < max && event.end > min)
+      .sort((a, b) => a.start.getTime() - b.start.getTime());
+  }
+}
@@ -0,0 +1,344 @@
+import { CalendarService } from '@/services/CalendarMCP';
+import { llmUsageService } from '@/services/LlmUsageService';
+import { OpenAIService } from '@/services/OpenAIService';
+import { ActivePromptTemplate } from '@/services/PromptTemplateService';
+import { UserConfig, userConfigService } from '@/services/UserConfigService';
+import { AiAnalysisTrace, AvailabilityRules, InboundIntent, LLMProvider } from '@/types';
+import {
+  EvalCalendarSpec,
+  EvalCase,
+  EvalCaseResult,
+  EvalCorpus,
+  EvalIntentScore,
+  EvalMetrics,
+  EvalOwnerSpec,
+  EvalRunResult,
+  EvalSlotResult,
+  EvalTimeRange
+} from '@/types/eval';
+import { getWorkingIntervals } from '@/utils/availability';
+import { DEFAULT_PII_REDACTION } from '@/utils/piiRedaction';
+import { addLocalDays, getZonedParts, parseTimeOfDay, zonedTimeToUtc } from '@/utils/timezone';
+import { toEmailMessage } from './corpus';
+import { FakeCalendarApi, FakeCalendarEvent } from './FakeCalendarApi';
+
+// How far to look for the Nth working day of a relative time range
+const MAX_DAY_SEARCH = 60;
+
+interface Interval {
+  start: Date;
+  end: Date;
+}
+
+export interface PipelineEvaluatorOptions {
+  template?: ActivePromptTemplate; // defaults to the built-in email_analysis prompt
+  promptVersion?: string;
+  onCase?: (result: EvalCaseResult) => void;
+}
+
+/**
+ * Runs a labeled corpus through OpenAIService.analyzeEmailAndSchedule against an in-memory
+ * calendar and scores intent classification, contact extraction and the proposed slots.
+ * Nothing is read from or written to the database.
+ */
+export class PipelineEvaluator {
+  private readonly service: OpenAIService;
+
+  constructor(private readonly provider: LLMProvider, private readonly options: PipelineEvaluatorOptions = {}) {
+    this.service = new OpenAIService(provider, undefined, { recordUsage: false });
+  }
+
+  async run(corpus: EvalCorpus, corpusPath: string): Promise<EvalRunResult> {
+    const startedAt = new Date();
+    const rules = this.buildRules(corpus.calendar);
+    const userConfig = corpus.owner ? this.buildOwnerConfig(corpus.owner, rules) : undefined;
+    const busy = (corpus.calendar.busy || []).flatMap((block, i) =>
+      this.resolveRange(block, rules, startedAt).map((interval): FakeCalendarEvent => ({
+        id: `busy-${i + 1}`,
+        summary: block.summary || 'Busy',
+        location: block.location,
+        ...interval
+      }))
+    );
+
+    const cases: EvalCaseResult[] = [];
+    for (const evalCase of corpus.cases) {
+      const result = await this.runCase(evalCase, corpusPath, rules, busy, startedAt, userConfig);
+      cases.push(result);
+      this.options.onCase?.(result);
+    }
+
+    return {
+      corpus: corpus.name,
+      startedAt: startedAt.toISOString(),
+      provider: this.provider.name,
+      model: this.provider.model,
+      promptVersion: this.options.promptVersion || 'built-in',
+      metrics: this.computeMetrics(cases),
+      cases
+    };
+  }
+
+  private async runCase(
+    evalCase: EvalCase,
+    corpusPath: string,
+    rules: AvailabilityRules,
+    busy: FakeCalendarEvent[],
+    runDate: Date,
+    userConfig?: UserConfig
+  ): Promise<EvalCaseResult> {
+    const api = new FakeCalendarApi(busy);
+    const calendar = CalendarService.withCalendarApi(api, rules);
+    const expected = evalCase.expected;
+    let trace: AiAnalysisTrace | undefined;
+
+    const result: EvalCaseResult = {
+      id: evalCase.id,
+      expectedIntent: expected.intent,
+      intent: null,
+      confidence: null,
+      contact: null,
+      contactMatches: {},
+      expectsSlots: !!expected.slotWindows?.length,
+      slots: [],
+      calendarWrites: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      latencyMs: 0
+    };
+
+    try {
+      const analysis = await this.service.analyzeEmailAndSchedule(toEmailMessage(evalCase, corpusPath), calendar, {
+        userConfig,
+        template: this.options.template,
+        onAnalysis: analysisTrace => { trace = analysisTrace; }
+      });
+
+      result.intent = analysis.intent;
+      result.confidence = analysis.confidence;
+      result.contact = analysis.contactInfo;
+      result.contactMatches = this.matchContact(expected.contact, analysis.contactInfo);
+
+      const windows = expected.slotWindows?.flatMap(window => this.resolveRange(window, rules, runDate));
+      const padded = this.padBusyBlocks(busy, rules);
+      result.slots = analysis.proposedTimeSlots.map(slot => this.checkSlot(slot, rules, padded, runDate, windows));
+      if (analysis.proposedTimeSlots.length > rules.slotSelection.slotCount) {
+        result.slots.forEach(slot => slot.violations.push(`more than ${rules.slotSelection.slotCount} slots proposed`));
+      }
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : String(error);
+    }
+
+    result.calendarWrites = api.created.length;
+    result.inputTokens = trace?.inputTokens || 0;
+    result.outputTokens = trace?.outputTokens || 0;
+    result.latencyMs = trace?.latencyMs || 0;
+    return result;
+  }
+
+  private buildRules(spec: EvalCalendarSpec): AvailabilityRules {
+    const defaults = userConfigService.getAvailabilityRules();
+
+    return {
+      ...defaults,
+      timezone: spec.timezone || defaults.timezone,
+      weeklyHours: spec.weeklyHours || defaults.weeklyHours,
+      meetingDuration: spec.meetingDuration ?? defaults.meetingDuration,
+      bufferTime: spec.bufferTime ?? defaults.bufferTime,
+      travelBufferTime: spec.travelBufferTime ?? defaults.travelBufferTime,
+      minAdvanceNotice: spec.minAdvanceNotice ?? defaults.minAdvanceNotice,
+      maxLookaheadDays: spec.maxLookaheadDays ?? defaults.maxLookaheadDays,
+      slotSelection: { ...defaults.slotSelection, slotCount: spec.slotCount ?? defaults.slotSelection.slotCount }
+    };
+  }
+
+  private buildOwnerConfig(owner: EvalOwnerSpec, rules: AvailabilityRules): UserConfig {
+    return {
+      ...owner,
+      emailSignature: '',
+      businessHoursStart: '',
+      businessHoursEnd: '',
+      workingDays: Object.keys(rules.weeklyHours).map(Number),
+      timezone: rules.timezone,
+      locale: 'en-US',
+      meetingDuration: rules.meetingDuration,
+      bufferTime: rules.bufferTime,
+      weeklyHours: rules.weeklyHours,
+      availabilityOverrides: rules.overrides,
+      proposedSlotCount: rules.slotSelection.slotCount,
+      maxSlotsPerDay: rules.slotSelection.maxSlotsPerDay,
+      minSlotGapMinutes: rules.slotSelection.minGapMinutes,
+      holdProposedSlots: false,
+      holdTtlHours: 0,
+      llmProvider: null,
+      llmModel: null,
+      monthlyAiBudgetUsd: null,
+      autoSendMinConfidence: 1,
+      draftMinConfidence: 0,
+      piiRedactionCategories: DEFAULT_PII_REDACTION,
+      bannedReplyPhrases: []
+    };
+  }
+
+  /**
+   * Concrete intervals for a relative range: the Nth working day after the run date, or every
+   * date on the weekday up to the end of the lookahead
+   */
+  private resolveRange(range: EvalTimeRange, rules: AvailabilityRules, runDate: Date): Interval[] {
+    const today = getZonedParts(runDate, rules.timezone);
+    const days: Array<ReturnType<typeof addLocalDays>> = [];
+
+    if (range.day !== undefined) {
+      let workingDays = 0;
+      for (let offset = 1; offset <= MAX_DAY_SEARCH && days.length === 0; offset++) {
+        const day = addLocalDays(today, offset);
+        if (getWorkingIntervals(rules, day).length > 0 && ++workingDays === range.day) {
+          days.push(day);
+        }
+      }
+    } else if (range.weekday !== undefined) {
+      for (let offset = 0; offset <= rules.maxLookaheadDays + 1; offset++) {
+        const day = addLocalDays(today, offset);
+        if (day.weekday === range.weekday) {
+          days.push(day);
+        }
+      }
+    }
+
+    return days.map(day => ({
+      start: zonedTimeToUtc({ ...day, ...parseTimeOfDay(range.start) }, rules.timezone),
+      end: zonedTimeToUtc({ ...day, ...parseTimeOfDay(range.end) }, rules.timezone)
+    }));
+  }
+
+  private padBusyBlocks(busy: FakeCalendarEvent[], rules: AvailabilityRules): Interval[] {
+    return busy.map(event => {
+      const minutes = event.location ? Math.max(rules.bufferTime, rules.travelBufferTime) : rules.bufferTime;
+      return {
+        start: new Date(event.start.getTime() - minutes * 60 * 1000),
+        end: new Date(event.end.getTime() + minutes * 60 * 1000)
+      };
+    });
+  }
+
+  /**
+   * Scheduling rules a proposed slot breaks, and whether it is inside the expected windows
+   */
+  private checkSlot(
+    slot: { start: Date; end: Date },
+    rules: AvailabilityRules,
+    busy: Interval[],
+    runDate: Date,
+    windows?: Interval[]
+  ): EvalSlotResult {
+    const violations: string[] = [];
+    const durationMinutes = (slot.end.getTime() - slot.start.getTime()) / 60000;
+
+    if (durationMinutes !== rules.meetingDuration) {
+      violations.push(`duration ${durationMinutes} min instead of ${rules.meetingDuration}`);
+    }
+
+    const local = getZonedParts(slot.start, rules.timezone);
+    const inWorkingHours = getWorkingIntervals(rules, local).some(interval => {
+      const start = zonedTimeToUtc({ ...local, ...parseTimeOfDay(interval.start) }, rules.timezone);
+      const end = zonedTimeToUtc({ ...local, ...parseTimeOfDay(interval.end) }, rules.timezone);
+      return slot.start >= start && slot.end <= end;
+    });
+    if (!inWorkingHours) {
+      violations.push('outside working hours');
+    }
+
+    if (busy.some(block => slot.start < block.end && slot.end > block.start)) {
+      violations.push('overlaps a busy block or its buffer');
+    }
+
+    if (slot.start.getTime() < runDate.getTime() + rules.minAdvanceNotice * 60 * 60 * 1000) {
+      violations.push(`less than ${rules.minAdvanceNotice}h notice`);
+    }
+
+    const horizonDay = addLocalDays(getZonedParts(runDate, rules.timezone), rules.maxLookaheadDays + 1);
+    if (slot.end > zonedTimeToUtc({ ...horizonDay, hour: 0, minute: 0 }, rules.timezone)) {
+      violations.push(`beyond the ${rules.maxLookaheadDays}-day lookahead`);
+    }
+
+    return {
+      start: slot.start.toISOString(),
+      end: slot.end.toISOString(),
+      inWindow: windows ? windows.some(window => slot.start >= window.start && slot.end <= window.end) : null,
+      violations
+    };
+  }
+
+  private matchContact(
+    expected: EvalCase['expected']['contact'],
+    actual: { name: string; email: string; company?: string }
+  ): EvalCaseResult['contactMatches'] {
+    if (!expected) {
+      return {};
+    }
+
+    const same = (a?: string | null, b?: string | null) => (a || '').trim().toLowerCase() === (b || '').trim().toLowerCase();
+    const matches: EvalCaseResult['contactMatches'] = {};
+    if (expected.name !== undefined) matches.name = same(expected.name, actual.name);
+    if (expected.email !== undefined) matches.email = same(expected.email, actual.email);
+    if (expected.company !== undefined) matches.company = same(expected.company, actual.company);
+    return matches;
+  }
+
+  private computeMetrics(cases: EvalCaseResult[]): EvalMetrics {
+    const ratio = (part: number, whole: number) => whole > 0 ? part / whole : null;
+    const labels = new Set<InboundIntent>(cases.flatMap(c => c.intent ? [c.expectedIntent, c.intent] : [c.expectedIntent]));
+
+    const intents: EvalMetrics['intents'] = {};
+    for (const label of labels) {
+      const truePositives = cases.filter(c => c.intent === label && c.expectedIntent === label).length;
+      const predicted = cases.filter(c => c.intent === label).length;
+      const support = cases.filter(c => c.expectedIntent === label).length;
+      const precision = ratio(truePositives, predicted);
+      const recall = ratio(truePositives, support);
+      const score: EvalIntentScore = {
+        precision,
+        recall,
+        f1: precision !== null && recall !== null && precision + recall > 0
+          ? 2 * precision * recall / (precision + recall)
+          : null,
+        support
+      };
+      intents[label] = score;
+    }
+
+    const fieldAccuracy = (field: 'name' | 'email' | 'company') => {
+      const labeled = cases.filter(c => c.contactMatches[field] !== undefined);
+      return ratio(labeled.filter(c => c.contactMatches[field]).length, labeled.length);
+    };
+
+    const slots = cases.flatMap(c => c.slots);
+    const windowed = slots.filter(slot => slot.inWindow !== null);
+    const inputTokens = cases.reduce((sum, c) => sum + c.inputTokens, 0);
+    const outputTokens = cases.reduce((sum, c) => sum + c.outputTokens, 0);
+
+    return {
+      cases: cases.length,
+      errors: cases.filter(c => c.error).length,
+      intentAccuracy: ratio(cases.filter(c => c.intent === c.expectedIntent).length, cases.length) ?? 0,
+      intents,
+      extraction: {
+        name: fieldAccuracy('name'),
+        email: fieldAccuracy('email'),
+        company: fieldAccuracy('company')
+      },
+      slots: {
+        proposed: slots.length,
+        inWindow: ratio(windowed.filter(slot => slot.inWindow).length, windowed.length),
+        violations: slots.reduce((sum, slot) => sum + slot.violations.length, 0),
+        casesWithViolations: cases.filter(c => c.slots.some(slot => slot.violations.length > 0)).length,
+        casesMissingSlots: cases.filter(c => c.expectsSlots && c.slots.length === 0).length
+      },
+      calendarWrites: cases.reduce((sum, c) => sum + c.calendarWrites, 0),
+      inputTokens,
+      outputTokens,
+      costUsd: llmUsageService.costUsd(this.provider.model, inputTokens, outputTokens),
+      avgLatencyMs: Math.round(cases.reduce((sum, c) => sum + c.latencyMs, 0) / Math.max(cases.length, 1))
+    };
+  }
+}
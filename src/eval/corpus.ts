@@ -0,0 +1,126 @@
+import { EMAIL_INTENTS } from '@/services/llm/schemas';
+import { EmailMessage } from '@/types';
+import { EvalCase, EvalCorpus } from '@/types/eval';
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Load a labeled corpus: a JSON file holding { name?, calendar?, owner?, cases } (or just the
+ * cases array). A case has its email inline or as an .eml file next to the corpus.
+ */
+export function loadCorpus(corpusPath: string): EvalCorpus {
+  const parsed = JSON.parse(fs.readFileSync(corpusPath, 'utf8'));
+  const corpus: EvalCorpus = Array.isArray(parsed)
+    ? { name: path.basename(corpusPath), calendar: {}, cases: parsed }
+    : { name: parsed.name || path.basename(corpusPath), calendar: parsed.calendar || {}, owner: parsed.owner, cases: parsed.cases || [] };
+
+  const ids = new Set<string>();
+  corpus.cases.forEach((evalCase, i) => {
+    const label = evalCase.id || `#${i + 1}`;
+    if (!evalCase.id) {
+      throw new Error(`Corpus case ${label} has no id`);
+    }
+    if (ids.has(evalCase.id)) {
+      throw new Error(`Duplicate corpus case id: ${evalCase.id}`);
+    }
+    ids.add(evalCase.id);
+
+    if (!evalCase.email && !evalCase.eml) {
+      throw new Error(`Corpus case ${label} needs an email or an eml file`);
+    }
+    if (!(EMAIL_INTENTS as readonly string[]).includes(evalCase.expected?.intent)) {
+      throw new Error(`Corpus case ${label} has an unknown expected intent: ${evalCase.expected?.intent}`);
+    }
+  });
+
+  return corpus;
+}
+
+/**
+ * The case's email as the pipeline sees it
+ */
+export function toEmailMessage(evalCase: EvalCase, corpusPath: string): EmailMessage {
+  const email = evalCase.email || parseEml(fs.readFileSync(path.resolve(path.dirname(corpusPath), evalCase.eml!), 'utf8'));
+
+  return {
+    id: `eval-${evalCase.id}`,
+    threadId: `eval-${evalCase.id}`,
+    from: email.from,
+    to: email.to || '',
+    subject: email.subject,
+    body: email.body,
+    receivedAt: new Date(),
+    isProcessed: false
+  };
+}
+
+/**
+ * Minimal RFC 822 parser: headers plus the text/plain body (the first text/plain part of a
+ * multipart message), with quoted-printable and base64 decoded
+ */
+export function parseEml(raw: string): { from: string; to: string; subject: string; body: string } {
+  const { headers, body } = splitMessage(raw);
+  const text = extractTextBody(headers, body);
+
+  return {
+    from: headers['from'] || '',
+    to: headers['to'] || '',
+    subject: headers['subject'] || '',
+    body: text.trim()
+  };
+}
+
+function splitMessage(raw: string): { headers: Record<string, string>; body: string } {
+  const normalized = raw.replace(/\r\n/g, '\n');
+  const separator = normalized.indexOf('\n\n');
+  const headerText = separator === -1 ? normalized : normalized.slice(0, separator);
+  const body = separator === -1 ? '' : normalized.slice(separator + 2);
+
+  const headers: Record<string, string> = {};
+  // Folded header lines start with whitespace
+  for (const line of headerText.replace(/\n[ \t]+/g, ' ').split('\n')) {
+    const colon = line.indexOf(':');
+    if (colon > 0) {
+      headers[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1).trim();
+    }
+  }
+
+  return { headers, body };
+}
+
+function extractTextBody(headers: Record<string, string>, body: string): string {
+  const contentType = headers['content-type'] || 'text/plain';
+  const boundary = contentType.match(/boundary="?([^";]+)"?/i)?.[1];
+
+  if (/^multipart\//i.test(contentType) && boundary) {
+    const parts = body.split(`--${boundary}`).slice(1).filter(part => !part.startsWith('--'));
+    for (const part of parts) {
+      const { headers: partHeaders, body: partBody } = splitMessage(part.replace(/^\n/, ''));
+      const partType = partHeaders['content-type'] || 'text/plain';
+      if (/^(text\/plain|multipart\/)/i.test(partType)) {
+        const text = extractTextBody(partHeaders, partBody);
+        if (text.trim()) {
+          return text;
+        }
+      }
+    }
+    return '';
+  }
+
+  return decodeBody(body, headers['content-transfer-encoding']);
+}
+
+function decodeBody(body: string, encoding: string = ''): string {
+  switch (encoding.toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.replace(/\s/g, ''), 'base64').toString('utf8');
+    case 'quoted-printable': {
+      const bytes = body
+        .replace(/=\n/g, '')
+        .replace(/=([0-9A-F]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+      return Buffer.from(bytes, 'latin1').toString('utf8');
+    }
+    default:
+      return body;
+  }
+}
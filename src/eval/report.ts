@@ -0,0 +1,131 @@
+import { EvalCaseResult, EvalMetrics, EvalRunResult } from '@/types/eval';
+
+// Metrics where a higher value is better; everything else in the summary is better lower
+const HIGHER_IS_BETTER = new Set(['intentAccuracy', 'extraction.name', 'extraction.email', 'extraction.company', 'slots.inWindow']);
+
+const percent = (value: number | null | undefined) => value === null || value === undefined ? 'n/a' : `${(value * 100).toFixed(1)}%`;
+
+/**
+ * Flat list of the headline numbers of a run, in display order
+ */
+function summarize(metrics: EvalMetrics): Array<{ key: string; label: string; value: number | null; format: (value: number | null) => string }> {
+  const count = (value: number | null) => String(value ?? 0);
+
+  return [
+    { key: 'intentAccuracy', label: 'Intent accuracy', value: metrics.intentAccuracy, format: percent },
+    { key: 'extraction.name', label: 'Contact name', value: metrics.extraction.name, format: percent },
+    { key: 'extraction.email', label: 'Contact email', value: metrics.extraction.email, format: percent },
+    { key: 'extraction.company', label: 'Contact company', value: metrics.extraction.company, format: percent },
+    { key: 'slots.inWindow', label: 'Slots in expected windows', value: metrics.slots.inWindow, format: percent },
+    { key: 'slots.violations', label: 'Slot rule violations', value: metrics.slots.violations, format: count },
+    { key: 'slots.casesMissingSlots', label: 'Cases missing slots', value: metrics.slots.casesMissingSlots, format: count },
+    { key: 'calendarWrites', label: 'Calendar writes', value: metrics.calendarWrites, format: count },
+    { key: 'errors', label: 'Failed analyses', value: metrics.errors, format: count },
+    { key: 'costUsd', label: 'Cost (USD)', value: metrics.costUsd, format: value => `$${(value ?? 0).toFixed(4)}` },
+    { key: 'avgLatencyMs', label: 'Avg latency (ms)', value: metrics.avgLatencyMs, format: count }
+  ];
+}
+
+function describeCase(result: EvalCaseResult): string[] {
+  const problems: string[] = [];
+
+  if (result.error) {
+    problems.push(`failed: ${result.error}`);
+  } else if (result.intent !== result.expectedIntent) {
+    problems.push(`intent ${result.intent}, expected ${result.expectedIntent}`);
+  }
+  for (const [field, matches] of Object.entries(result.contactMatches)) {
+    if (!matches) {
+      problems.push(`wrong contact ${field}: ${result.contact?.[field as keyof typeof result.contactMatches] ?? '(none)'}`);
+    }
+  }
+  if (result.expectsSlots && !result.error && result.slots.length === 0) {
+    problems.push('no slots proposed');
+  }
+  // Slots are numbered rather than dated so runs on different days compare cleanly
+  result.slots.forEach((slot, i) => {
+    if (slot.inWindow === false) {
+      problems.push(`slot ${i + 1} outside the expected windows`);
+    }
+    for (const violation of slot.violations) {
+      problems.push(`slot ${i + 1}: ${violation}`);
+    }
+  });
+  if (result.calendarWrites > 0) {
+    problems.push(`created ${result.calendarWrites} calendar event(s)`);
+  }
+
+  return problems;
+}
+
+/**
+ * Human-readable report of one run: headline metrics, per-intent scores and failing cases
+ */
+export function formatRun(run: EvalRunResult): string {
+  const lines = [
+    `📊 ${run.corpus}: ${run.metrics.cases} cases, ${run.provider}/${run.model}, prompt ${run.promptVersion}`,
+    ''
+  ];
+
+  for (const { label, value, format } of summarize(run.metrics)) {
+    lines.push(`  ${label.padEnd(28)} ${format(value)}`);
+  }
+
+  lines.push('', '  Intent           Precision  Recall     F1         Support');
+  for (const [intent, score] of Object.entries(run.metrics.intents)) {
+    lines.push(`  ${intent.padEnd(16)} ${percent(score.precision).padEnd(10)} ${percent(score.recall).padEnd(10)} ${percent(score.f1).padEnd(10)} ${score.support}`);
+  }
+
+  const failing = run.cases.map(result => ({ id: result.id, problems: describeCase(result) })).filter(c => c.problems.length > 0);
+  lines.push('', failing.length === 0 ? '✅ All cases pass' : `❌ ${failing.length} case(s) with problems:`);
+  for (const { id, problems } of failing) {
+    lines.push(`  ${id}`);
+    problems.forEach(problem => lines.push(`    - ${problem}`));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Compare a baseline run with a candidate: metric deltas, and cases that got better or worse
+ */
+export function diffRuns(baseline: EvalRunResult, candidate: EvalRunResult): string {
+  const lines = [
+    `📊 ${baseline.provider}/${baseline.model} (prompt ${baseline.promptVersion}) -> ${candidate.provider}/${candidate.model} (prompt ${candidate.promptVersion})`,
+    ''
+  ];
+
+  const after = new Map(summarize(candidate.metrics).map(metric => [metric.key, metric.value]));
+  for (const { key, label, value, format } of summarize(baseline.metrics)) {
+    const next = after.get(key) ?? null;
+    const delta = value !== null && next !== null ? next - value : null;
+    const better = delta !== null && delta !== 0 && (delta > 0) === HIGHER_IS_BETTER.has(key);
+    const marker = delta === null || delta === 0 ? ' ' : better ? '▲' : '▼';
+    lines.push(`  ${marker} ${label.padEnd(28)} ${format(value).padStart(10)} -> ${format(next)}`);
+  }
+
+  const baselineCases = new Map(baseline.cases.map(result => [result.id, result]));
+  const changed: string[] = [];
+  for (const result of candidate.cases) {
+    const previous = baselineCases.get(result.id);
+    if (!previous) {
+      changed.push(`  + ${result.id} (new case)`);
+      continue;
+    }
+
+    const before = describeCase(previous);
+    const now = describeCase(result);
+    const fixed = before.filter(problem => !now.includes(problem));
+    const broken = now.filter(problem => !before.includes(problem));
+    if (fixed.length === 0 && broken.length === 0) {
+      continue;
+    }
+
+    changed.push(`  ${result.id}`);
+    fixed.forEach(problem => changed.push(`    ▲ fixed: ${problem}`));
+    broken.forEach(problem => changed.push(`    ▼ new: ${problem}`));
+  }
+
+  lines.push('', changed.length === 0 ? 'No case changed' : 'Changed cases:', ...changed);
+  return lines.join('\n');
+}
@@ -0,0 +1,51 @@
+import { calendarHoldService } from '@/services/CalendarHoldService';
+import { CronJob } from 'cron';
+import { leaderElection } from './LeaderElection';
+
+/**
+ * Releases tentative calendar holds once their TTL has passed
+ */
+export class CalendarHoldJob {
+  private cronJob: CronJob;
+  private lastRun?: Date;
+
+  constructor() {
+    // Run every 5 minutes: '0 */5 * * * *'
+    this.cronJob = new CronJob('0 */5 * * * *', () => {
+      if (!leaderElection.isLeader) {
+        return;
+      }
+
+      this.releaseExpiredHolds().catch((error) => {
+        console.error('📅 Releasing expired holds failed:', error);
+      });
+    }, null, false, 'America/Los_Angeles');
+  }
+
+  start() {
+    console.log('📅 Starting Calendar Hold Job - every 5 minutes');
+    this.cronJob.start();
+  }
+
+  stop() {
+    console.log('📅 Stopping Calendar Hold Job');
+    this.cronJob.stop();
+  }
+
+  async releaseExpiredHolds(): Promise<number> {
+    const released = await calendarHoldService.releaseExpiredHolds();
+    this.lastRun = new Date();
+    return released;
+  }
+
+  async getStatus(): Promise<{ isStarted: boolean; lastRun?: Date; nextRun?: Date }> {
+    return {
+      isStarted: this.cronJob.isActive,
+      lastRun: this.lastRun,
+      nextRun: this.cronJob.isActive ? this.cronJob.nextDate().toJSDate() : undefined
+    };
+  }
+}
+
+// Export singleton
+export const calendarHoldJob = new CalendarHoldJob();
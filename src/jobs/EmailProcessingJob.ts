@@ -1,13 +1,47 @@
+import { AiAnalysisRepository } from '@/database/repositories/AiAnalysisRepository';
 import { CalendarRepository } from '@/database/repositories/CalendarRepository';
 import { EmailRepository } from '@/database/repositories/EmailRepository';
 import { ScheduledResponseRepository } from '@/database/repositories/ScheduledResponseRepository';
 import { UserRepository, UserWithTokens } from '@/database/repositories/UserRepository';
-import { calendarService } from '@/services/CalendarMCP';
-import { gmailService } from '@/services/GmailService';
+import { calendarHoldService } from '@/services/CalendarHoldService';
+import { GmailService } from '@/services/GmailService';
+import { googleClientFactory, UserGoogleClients } from '@/services/GoogleClientFactory';
+import { llmUsageService } from '@/services/LlmUsageService';
 import { openaiService } from '@/services/OpenAIService';
-import { EmailMessage } from '@/types';
-import { EmailDirection, Prisma, ProcessingStatus, ResponseStatus } from '@prisma/client';
+import { ActivePromptTemplate, promptTemplateService } from '@/services/PromptTemplateService';
+import { replyGuardrailService } from '@/services/ReplyGuardrailService';
+import { replyStyleService } from '@/services/ReplyStyleService';
+import { UserConfig, userConfigService } from '@/services/UserConfigService';
+import { EmailMessage, GmailPushNotification, JobQueueStats, MCPAnalysisResult, ReplyValidationReport, SyncUserEmailsPayload } from '@/types';
+import { formatLocalDate } from '@/utils/availability';
+import { config } from '@/utils/config';
+import { detectPromptInjection } from '@/utils/promptSafety';
+import { replaceSlotTokens } from '@/utils/slotFormatting';
+import { getZonedParts } from '@/utils/timezone';
+import {
+  BackgroundJob,
+  BackgroundJobType,
+  CalendarEventRecord,
+  EmailDirection,
+  EmailIntent,
+  EmailRecord,
+  IntentAction,
+  Prisma,
+  ProcessingStatus,
+  ResponseStatus,
+  ScheduledResponse,
+  SlotAcceptanceOutcome,
+  User
+} from '@prisma/client';
 import { CronJob } from 'cron';
+import { jobQueue } from './JobQueue';
+import { leaderElection } from './LeaderElection';
+
+// How far past the accepted slot to look for alternatives when it has been taken
+const ALTERNATIVE_SEARCH_DAYS = 7;
+
+// pendingReason of emails parked because the user's AI budget was spent
+const AI_BUDGET_PENDING_REASON = 'AI budget exceeded';
 
 export class EmailProcessingJob {
   private cronJob: CronJob;
@@ -15,19 +49,27 @@ export class EmailProcessingJob {
   private userRepository: UserRepository;
   private scheduledResponseRepository: ScheduledResponseRepository;
   private calendarRepository: CalendarRepository;
-  private isRunning: boolean = false;
+  private aiAnalysisRepository: AiAnalysisRepository;
 
   constructor() {
     this.emailRepository = new EmailRepository();
     this.userRepository = new UserRepository();
     this.scheduledResponseRepository = new ScheduledResponseRepository();
     this.calendarRepository = new CalendarRepository();
+    this.aiAnalysisRepository = new AiAnalysisRepository();
     
+    // Only the elected leader enqueues; every instance runs queue workers
     this.cronJob = new CronJob('0 */5 * * * *', () => {
+      if (!leaderElection.isLeader) {
+        return;
+      }
+
       this.processEmails().catch((error) => {
         console.error('🤖 Email processing job failed:', error);
       });
     }, null, false, 'America/Los_Angeles');
+
+    jobQueue.register(BackgroundJobType.SYNC_USER_EMAILS, (job) => this.handleSyncJob(job));
   }
 
   start(): void {
@@ -40,35 +82,49 @@ export class EmailProcessingJob {
     this.cronJob.stop();
   }
 
+  /**
+   * Enqueue one sync job per connected user; the job queue runs them
+   */
   async processEmails(): Promise<void> {
-    if (this.isRunning) {
-      console.log('🤖 Email processing already running, skipping...');
-      return;
+    console.log('🤖 Enqueuing email sync jobs...');
+
+    const users = await this.userRepository.findMany({
+      googleTokens: { isNot: null }
+    }) as UserWithTokens[];
+
+    for (const user of users) {
+      await this.enqueueUserSync(user.id);
     }
 
-    this.isRunning = true;
-    console.log('🤖 Starting email sync and processing...');
+    console.log(`🤖 Enqueued email sync for ${users.length} user(s)`);
+  }
 
-    try {
-      const users = await this.userRepository.findMany({}) as UserWithTokens[];
-      
-      for (const user of users) {
-        try {
-          await this.processUserEmails(user);
-        } catch (error) {
-          console.error(`🤖 Failed to process emails for user ${user.email}:`, error);
-        }
-      }
-      
-      console.log('🤖 Email processing completed');
-    } catch (error) {
-      console.error('🤖 Email processing failed:', error);
-    } finally {
-      this.isRunning = false;
+  private async enqueueUserSync(userId: string): Promise<BackgroundJob> {
+    const payload: SyncUserEmailsPayload = { userId };
+
+    // One pending sync per user; the dedupe key also keeps two syncs for a user from running at once
+    return jobQueue.enqueue(BackgroundJobType.SYNC_USER_EMAILS, { ...payload }, {
+      dedupeKey: `sync:${userId}`
+    });
+  }
+
+  private async handleSyncJob(job: BackgroundJob): Promise<void> {
+    const { userId } = job.payload as unknown as SyncUserEmailsPayload;
+
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      console.log(`🤖 User ${userId} no longer exists, skipping sync`);
+      return;
     }
+
+    await this.processUserEmails(user, job.attempts >= job.maxAttempts);
   }
 
-  private async processUserEmails(user: UserWithTokens): Promise<void> {
+  /**
+   * @param finalAttempt On the sync job's last attempt the checkpoint moves past messages that
+   * still fail; they stay FAILED instead of being retried on every sync
+   */
+  private async processUserEmails(user: UserWithTokens, finalAttempt: boolean): Promise<void> {
     try {
       console.log(`🤖 Processing emails for user: ${user.email}`);
 
@@ -84,115 +140,238 @@ export class EmailProcessingJob {
         return;
       }
 
-      // Create a user-specific Gmail service instance
-      const userGmailService = gmailService;
-      
-      // Set user-specific tokens
+      // Build Gmail/Calendar clients bound to this user's tokens
+      let clients: UserGoogleClients;
+      let profileHistoryId: string;
       try {
-        userGmailService.setUserTokens(user.googleTokens.accessToken, user.googleTokens.refreshToken);
-        
+        clients = await googleClientFactory.forUser(user);
+
         // Verify we can access the user's Gmail by getting their profile
-        const profile = await userGmailService.getProfile();
+        const profile = await clients.gmail.getProfile();
         const authenticatedEmail = profile.emailAddress?.toLowerCase();
         const targetEmail = user.email?.toLowerCase();
-        
+
         if (authenticatedEmail !== targetEmail) {
           console.error(`🤖 ⚠️ CRITICAL: Token mismatch! Expected ${targetEmail}, got ${authenticatedEmail}`);
           return;
         }
-        
+
+        profileHistoryId = String(profile.historyId);
         console.log(`🤖 ✅ Successfully authenticated Gmail service for user: ${user.email}`);
       } catch (error) {
-        console.error(`🤖 Failed to authenticate Gmail service for user ${user.email}, skipping:`, error);
-        return;
+        console.error(`🤖 Failed to authenticate Gmail service for user ${user.email}:`, error);
+        throw error;
       }
 
-      // Get user's last processed email time (last 24 hours max)
-      const lastEmail = await this.emailRepository.findMany({
-        userId: user.id,
-        limit: 1,
-        sortBy: 'receivedAt',
-        sortOrder: 'desc'
-      });
+      const userGmailService = clients.gmail;
+      await this.ensureMailboxWatch(user, userGmailService);
 
-      const lastSyncTime = lastEmail[0]?.receivedAt || new Date(Date.now() - 24 * 60 * 60 * 1000);
-      const searchAfter = Math.floor(lastSyncTime.getTime() / 1000);
-      
-      // Get ALL emails (inbound and outbound) for complete logging and processing
-      // This includes: received emails, sent emails, conversation threads
-      // Use OR operator to search both inbox and sent emails
-      const query = `after:${searchAfter} -from:noreply -from:no-reply -from:donotreply`;
-      
-      console.log(`🤖 Fetching emails with query: ${query} for user: ${user.email}`);
-      
-      const emails = await userGmailService.searchEmails(query, 20);
-      console.log(`🤖 Found ${emails.length} emails to analyze for user ${user.email} (inbound, outbound, and conversations)`);
+      // Incremental sync from the stored history checkpoint, full resync when missing or expired
+      const storedHistoryId = user.googleTokens.gmailHistoryId;
+      let history = storedHistoryId ? await userGmailService.listHistory(storedHistoryId) : null;
+
+      if (!history) {
+        console.log(`🤖 ${storedHistoryId ? 'History checkpoint expired' : 'No history checkpoint'} for user ${user.email}, running full resync`);
+        history = {
+          messageIds: await this.listMessagesForFullResync(user.id, userGmailService),
+          historyId: profileHistoryId
+        };
+      }
+
+      console.log(`🤖 Found ${history.messageIds.length} new messages to analyze for user ${user.email} (inbound, outbound, and conversations)`);
+
+      // Messages that couldn't be fetched count as failed, like ones that fail processing
+      const { emails, failedIds } = await userGmailService.getEmailsByIds(history.messageIds);
+      emails.sort((a, b) => a.receivedAt.getTime() - b.receivedAt.getTime());
 
+      let failed = failedIds.length;
       for (const email of emails) {
-        await this.processSingleEmail(user.id, email, userGmailService);
+        if (!(await this.processSingleEmail(user.id, email, clients))) {
+          failed++;
+        }
       }
-      
+
+      // Only advance the checkpoint once every message in this batch has been handled; a retry
+      // lists the same messages again and picks up the failed ones
+      if (failed > 0 && !finalAttempt) {
+        throw new Error(`${failed} of ${history.messageIds.length} message(s) failed for user ${user.email}, keeping the history checkpoint for a retry`);
+      }
+      if (failed > 0) {
+        console.warn(`🤖 ${failed} message(s) for user ${user.email} still failing after the last attempt, advancing the checkpoint`);
+      }
+
+      await this.userRepository.updateGmailSyncState(user.id, {
+        gmailHistoryId: history.historyId
+      });
+
+      await this.processBudgetPendingEmails(user, clients);
+
     } catch (error) {
       console.error(`🤖 Error processing emails for user ${user.id}:`, error);
+      // Rethrow so the job queue retries with backoff
+      throw error;
+    }
+  }
+
+  /**
+   * Process emails parked while the AI budget was spent, once there is budget again (a new
+   * month or a raised budget). Incremental sync never lists them again.
+   */
+  private async processBudgetPendingEmails(user: UserWithTokens, clients: UserGoogleClients): Promise<void> {
+    const parked = await this.emailRepository.findPendingByReason(user.id, AI_BUDGET_PENDING_REASON, config.monitoring.maxEmailsPerCheck);
+    if (parked.length === 0 || (await llmUsageService.getBudgetStatus(user)).exceeded) {
+      return;
+    }
+
+    console.log(`🤖 AI budget available again for ${user.email}, processing ${parked.length} parked email(s)`);
+
+    // Failures are marked FAILED like any other email; they don't fail the sync
+    try {
+      const { emails } = await clients.gmail.getEmailsByIds(parked.map(record => record.gmailMessageId));
+      emails.sort((a, b) => a.receivedAt.getTime() - b.receivedAt.getTime());
+      for (const email of emails) {
+        await this.processSingleEmail(user.id, email, clients);
+      }
+    } catch (error) {
+      console.error(`🤖 Failed to process parked emails for user ${user.email}:`, error);
+    }
+  }
+
+  /**
+   * Message IDs for a full resync: everything since the newest stored email (24 hours max),
+   * without a result cap so bursts are not dropped
+   */
+  private async listMessagesForFullResync(userId: string, userGmailService: GmailService): Promise<string[]> {
+    const lastEmail = await this.emailRepository.findMany({
+      userId,
+      limit: 1,
+      sortBy: 'receivedAt',
+      sortOrder: 'desc'
+    });
+
+    const dayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    const lastSyncTime = lastEmail[0]?.receivedAt && lastEmail[0].receivedAt > dayAgo
+      ? lastEmail[0].receivedAt
+      : dayAgo;
+    const searchAfter = Math.floor(lastSyncTime.getTime() / 1000);
+
+    // Inbound and outbound mail alike, for complete logging and processing
+    const query = `after:${searchAfter} -from:noreply -from:no-reply -from:donotreply`;
+    console.log(`🤖 Full resync query: ${query}`);
+
+    return userGmailService.listAllMessageIds(query);
+  }
+
+  /**
+   * Register (or renew) Gmail push notifications when a Pub/Sub topic is configured
+   */
+  private async ensureMailboxWatch(user: UserWithTokens, userGmailService: GmailService): Promise<void> {
+    const { topicName } = config.gmailPush;
+    if (!topicName || !user.googleTokens) {
+      return;
+    }
+
+    const renewBefore = new Date(Date.now() + 24 * 60 * 60 * 1000);
+    const watchExpiresAt = user.googleTokens.gmailWatchExpiresAt;
+    if (watchExpiresAt && watchExpiresAt > renewBefore) {
+      return;
+    }
+
+    try {
+      const watch = await userGmailService.watchMailbox(topicName);
+      await this.userRepository.updateGmailSyncState(user.id, {
+        gmailWatchExpiresAt: watch.expiration
+      });
+      console.log(`🤖 📬 Gmail push watch active for ${user.email} until ${watch.expiration.toISOString()}`);
+    } catch (error) {
+      console.error(`🤖 Failed to register Gmail push watch for ${user.email}:`, error);
     }
   }
 
-  private async processEmailWithMCP(userId: string, email: EmailMessage, emailRecord: any, user: any): Promise<void> {
+  /**
+   * Handle a Gmail push notification by enqueuing an incremental sync for the mailbox owner
+   */
+  async handlePushNotification(notification: GmailPushNotification): Promise<void> {
+    const user = await this.userRepository.findByEmail(notification.emailAddress);
+    if (!user?.googleTokens) {
+      console.log(`🤖 Push notification for unknown mailbox ${notification.emailAddress}, ignoring`);
+      return;
+    }
+
+    const storedHistoryId = user.googleTokens.gmailHistoryId;
+    if (storedHistoryId && BigInt(notification.historyId) <= BigInt(storedHistoryId)) {
+      console.log(`🤖 Push notification for ${notification.emailAddress} already synced (historyId ${notification.historyId})`);
+      return;
+    }
+
+    await this.enqueueUserSync(user.id);
+    jobQueue.processAvailable().catch((error) => {
+      console.error('🤖 Failed to run queued jobs after push notification:', error);
+    });
+  }
+
+  private async processEmailWithMCP(
+    userId: string,
+    email: EmailMessage,
+    emailRecord: any,
+    user: any,
+    clients: UserGoogleClients
+  ): Promise<void> {
     try { 
+      if (!(await this.withinAiBudget(user, emailRecord.id))) {
+        return;
+      }
+
+      // Replies on a proposal thread are slot acceptances until a meeting is booked; after that
+      // they are classified like any other email, e.g. a request to move or cancel the meeting
       const sentScheduledResponses = await this.scheduledResponseRepository.findSentResponsesByThreadId(email.threadId);
-      if (sentScheduledResponses.length > 0) {
+      const bookedMeeting = sentScheduledResponses.length > 0
+        ? await this.calendarRepository.findEventByThreadAndAttendee(userId, email.threadId, this.extractSenderEmail(email.from))
+        : null;
+      if (sentScheduledResponses.length > 0 && !bookedMeeting) {
         // This is a reply to a sent scheduled response, check if we need to create calendar event
-        await this.processReplyToScheduledResponse(userId, email, sentScheduledResponses);
+        const injectionSignals = detectPromptInjection(email);
+        await this.flagSuspectedInjection(emailRecord.id, email, injectionSignals);
+        await this.processReplyToScheduledResponse(userId, email, sentScheduledResponses, clients, injectionSignals);
         await this.emailRepository.markAsProcessed(emailRecord.id, false);
         return;
       }  
       // Let AI analyze email and directly check calendar for available slots
-      const mcpAnalysis = await openaiService.analyzeEmailAndSchedule(email);  
-      
-      console.log(`🤖 MCP-AI Demo request detected: ${email.subject} (confidence: ${mcpAnalysis.confidence})`);
-      console.log(`🤖 MCP-AI found ${mcpAnalysis.proposedTimeSlots.length} available time slots`);
-
-      // Convert AI-found time slots to our internal format
-      const timeSlots = mcpAnalysis.proposedTimeSlots.map(slot => ({
-        start: new Date(slot.start),
-        end: new Date(slot.end),
-        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-        formatted: slot.formatted,
-      }));
-
-      // Calculate when email will be sent (1 hour delay)
-      const scheduledAt = new Date();
-      scheduledAt.setHours(scheduledAt.getHours() + 1);
-
-      console.log(`🤖 Creating MCP-scheduled response:`);
-      console.log(`🤖   - Assigned to userId: ${userId}`);
-      console.log(`🤖   - User email: ${user.email}`);
-      console.log(`🤖   - Recipient: ${mcpAnalysis.contactInfo.name} <${mcpAnalysis.contactInfo.email}>`);
-      console.log(`🤖   - Scheduled for: ${scheduledAt.toISOString()}`);
-      console.log(`🤖   - AI Generated Response Preview: ${mcpAnalysis.emailResponse.substring(0, 100)}...`);
-      console.log(`🤖   - AI Generated Response Length: ${mcpAnalysis.emailResponse.length} characters`);
-      console.log(`🤖   - AI Generated Response Full: ${JSON.stringify(mcpAnalysis.emailResponse)}`);
-
-      // Create scheduled response with AI-generated content
-      const createdResponse = await this.scheduledResponseRepository.create({
-        userId,
-        emailRecordId: emailRecord.id,
-        recipientEmail: mcpAnalysis.contactInfo.email,
-        recipientName: mcpAnalysis.contactInfo.name,
-        subject: `Re: ${email.subject}`,
-        body: mcpAnalysis.emailResponse,
-        proposedTimeSlots: timeSlots as Prisma.InputJsonValue,
-        scheduledAt,
-        status: ResponseStatus.SCHEDULED
+      const template = await promptTemplateService.getActive(userId, 'email_analysis');
+      const userConfig = await userConfigService.getConfigForUser(user);
+      const mcpAnalysis = await openaiService.forUser(user).analyzeEmailAndSchedule(email, clients.calendar, {
+        userConfig,
+        template,
+        replyStyle: await replyStyleService.getGuidance(userId, userConfig.piiRedactionCategories),
+        onToolStep: step => this.emailRepository.recordToolStep(emailRecord.id, step),
+        onAnalysis: trace => this.aiAnalysisRepository.record(userId, emailRecord.id, trace)
       });
 
-      console.log(`🤖 ✅ MCP-scheduled response created with ID: ${createdResponse.id}`);
+      await this.flagSuspectedInjection(emailRecord.id, email, mcpAnalysis.injectionSignals);
 
-      // Send Slack notification if configured
-      await this.sendSlackNotification(email, mcpAnalysis.contactInfo, createdResponse, timeSlots);
+      const action = config.intentRoutes[mcpAnalysis.intent];
+      console.log(`🤖 MCP-AI intent: ${mcpAnalysis.intent} (urgency: ${mcpAnalysis.urgency}, confidence: ${mcpAnalysis.confidence}) -> ${action}: ${email.subject}`);
+      await this.emailRepository.update(emailRecord.id, {
+        intent: mcpAnalysis.intent.toUpperCase() as EmailIntent,
+        urgency: mcpAnalysis.urgency,
+        intentAction: action.toUpperCase() as IntentAction
+      });
 
-      // Mark email as processed  
-      await this.emailRepository.markAsProcessed(emailRecord.id, true);
+      switch (action) {
+        case 'schedule':
+        case 'reschedule':
+          await this.proposeSlots(userId, email, emailRecord, user, clients, mcpAnalysis, userConfig, template, action);
+          break;
+        case 'cancel':
+          await this.cancelMeetingsForSender(userId, email, emailRecord, clients, mcpAnalysis, userConfig);
+          break;
+        case 'forward':
+          await this.forwardToHuman(email, emailRecord, mcpAnalysis);
+          break;
+        case 'ignore':
+          await this.emailRepository.markAsProcessed(emailRecord.id, mcpAnalysis.isDemoRequest);
+          break;
+      }
 
     } catch (error) {
       console.error(`🤖 Error in MCP email processing:`, error);
@@ -202,30 +381,237 @@ export class EmailProcessingJob {
     }
   }
 
+  /**
+   * Reply to a demo or reschedule request with the slots the analysis found. A reschedule
+   * reply always waits for approval; the old meeting is cancelled once a new slot is booked.
+   */
+  private async proposeSlots(
+    userId: string,
+    email: EmailMessage,
+    emailRecord: EmailRecord,
+    user: User,
+    clients: UserGoogleClients,
+    mcpAnalysis: MCPAnalysisResult,
+    userConfig: UserConfig,
+    template: ActivePromptTemplate,
+    action: 'schedule' | 'reschedule'
+  ): Promise<void> {
+    if (!mcpAnalysis.emailResponse.trim()) {
+      // Routed here from an intent the analysis doesn't answer with slots
+      await this.forwardToHuman(email, emailRecord, mcpAnalysis);
+      return;
+    }
+
+    const route = this.routeByConfidence(mcpAnalysis.confidence, userConfig);
+    if (route === 'flag') {
+      console.log(`🤖 MCP-AI: low-confidence ${mcpAnalysis.intent} flagged for review: ${email.subject} (confidence: ${mcpAnalysis.confidence})`);
+      await this.emailRepository.update(emailRecord.id, { flaggedForReview: true });
+      await this.emailRepository.markAsProcessed(emailRecord.id, mcpAnalysis.isDemoRequest);
+      return;
+    }
+
+    // The signature is left out: times or weekdays in it ("Mon-Fri 9:00-17:00") aren't offers
+    const validation = replyGuardrailService.validate(mcpAnalysis.unsignedResponse, {
+      slots: mcpAnalysis.proposedTimeSlots,
+      timeZone: clients.calendar.timeZone,
+      bannedPhrases: userConfig.bannedReplyPhrases
+    });
+    this.logFailedValidation(validation);
+
+    // Moving a booked meeting, replying to a suspected injection attempt or a reply that failed
+    // the guardrail checks always waits for approval
+    const requiresApproval = route === 'approval' || action === 'reschedule' || mcpAnalysis.injectionSignals.length > 0 || !validation.passed;
+
+    console.log(`🤖 MCP-AI ${action === 'reschedule' ? 'Reschedule' : 'Demo'} request detected: ${email.subject} (confidence: ${mcpAnalysis.confidence})`);
+    console.log(`🤖 MCP-AI found ${mcpAnalysis.proposedTimeSlots.length} available time slots`);
+
+    // Convert AI-found time slots to our internal format
+    const timeSlots = mcpAnalysis.proposedTimeSlots.map(slot => ({
+      start: slot.start,
+      end: slot.end,
+      timezone: clients.calendar.timeZone,
+      formatted: slot.formatted,
+    }));
+
+    // Calculate when email will be sent (1 hour delay)
+    const scheduledAt = new Date();
+    scheduledAt.setHours(scheduledAt.getHours() + 1);
+
+    console.log(`🤖 Creating MCP-scheduled response${requiresApproval ? ' (draft awaiting approval)' : ''}:`);
+    console.log(`🤖   - Assigned to userId: ${userId}`);
+    console.log(`🤖   - User email: ${user.email}`);
+    console.log(`🤖   - Recipient: ${mcpAnalysis.contactInfo.name} <${mcpAnalysis.contactInfo.email}>`);
+    console.log(`🤖   - Scheduled for: ${scheduledAt.toISOString()}`);
+    console.log(`🤖   - AI Generated Response Preview: ${mcpAnalysis.emailResponse.substring(0, 100)}...`);
+    console.log(`🤖   - AI Generated Response Length: ${mcpAnalysis.emailResponse.length} characters`);
+    console.log(`🤖   - AI Generated Response Full: ${JSON.stringify(mcpAnalysis.emailResponse)}`);
+
+    // Create scheduled response with AI-generated content
+    const createdResponse = await this.scheduledResponseRepository.create({
+      userId,
+      emailRecordId: emailRecord.id,
+      recipientEmail: mcpAnalysis.contactInfo.email,
+      recipientName: mcpAnalysis.contactInfo.name,
+      subject: `Re: ${email.subject}`,
+      body: mcpAnalysis.emailResponse,
+      proposedTimeSlots: timeSlots as Prisma.InputJsonValue,
+      scheduledAt,
+      status: requiresApproval ? ResponseStatus.DRAFT : ResponseStatus.SCHEDULED,
+      promptTemplateId: template.id,
+      promptVersion: template.version,
+      confidence: mcpAnalysis.confidence,
+      requiresApproval,
+      validationReport: validation as unknown as Prisma.InputJsonValue,
+      prospectTimeZone: mcpAnalysis.prospectTimeZone
+    });
+
+    console.log(`🤖 ✅ MCP-scheduled response created with ID: ${createdResponse.id}`);
+
+    // Send Slack notification if configured
+    await this.sendSlackNotification(email, mcpAnalysis.contactInfo, createdResponse, timeSlots);
+
+    // Mark email as processed  
+    await this.emailRepository.markAsProcessed(emailRecord.id, mcpAnalysis.isDemoRequest);
+  }
+
+  /**
+   * Cancel the sender's upcoming meetings. Only done automatically at auto-send confidence and
+   * without injection signals; otherwise, or when there is nothing to cancel, the email is flagged for review.
+   */
+  private async cancelMeetingsForSender(
+    userId: string,
+    email: EmailMessage,
+    emailRecord: EmailRecord,
+    clients: UserGoogleClients,
+    mcpAnalysis: MCPAnalysisResult,
+    userConfig: UserConfig
+  ): Promise<void> {
+    const attendeeEmail = this.extractSenderEmail(email.from);
+    const meetings = await this.calendarRepository.findUpcomingMeetingsWith(userId, attendeeEmail);
+
+    const automatic = this.routeByConfidence(mcpAnalysis.confidence, userConfig) === 'auto_send' && mcpAnalysis.injectionSignals.length === 0;
+    if (meetings.length === 0 || !automatic) {
+      console.log(`🤖 Cancellation from ${attendeeEmail} flagged for review (${meetings.length} upcoming meeting(s), confidence: ${mcpAnalysis.confidence})`);
+      await this.emailRepository.update(emailRecord.id, { flaggedForReview: true });
+      await this.emailRepository.markAsProcessed(emailRecord.id, false);
+      return;
+    }
+
+    await this.cancelCalendarEvents(meetings, clients);
+    await this.emailRepository.markAsProcessed(emailRecord.id, false);
+    await this.sendSlackHandoff(
+      email,
+      mcpAnalysis,
+      `Cancelled ${meetings.length} meeting(s): ${meetings.map(meeting => meeting.startTime.toISOString()).join(', ')}`
+    );
+  }
+
+  /**
+   * Leave the email to a human: flagged on the dashboard and announced in Slack, no reply drafted
+   */
+  private async forwardToHuman(email: EmailMessage, emailRecord: EmailRecord, mcpAnalysis: MCPAnalysisResult): Promise<void> {
+    console.log(`🤖 Forwarding ${mcpAnalysis.intent} email to a human: ${email.subject}`);
+    await this.emailRepository.update(emailRecord.id, { flaggedForReview: true });
+    await this.emailRepository.markAsProcessed(emailRecord.id, mcpAnalysis.isDemoRequest);
+    await this.sendSlackHandoff(email, mcpAnalysis, 'Needs a reply from a human');
+  }
 
-  private async processSingleEmail(userId: string, email: EmailMessage, userGmailService?: any): Promise<void> {
+  /**
+   * Flag an email that looks like a prompt-injection attempt; what the AI does with it
+   * then needs a human (replies become drafts, nothing is cancelled automatically)
+   */
+  private async flagSuspectedInjection(emailRecordId: string, email: EmailMessage, signals: string[]): Promise<void> {
+    if (signals.length === 0) {
+      return;
+    }
+
+    console.warn(`🛡️ Possible prompt injection in "${email.subject}" from ${email.from}: ${signals.join(', ')}`);
+    await this.emailRepository.update(emailRecordId, {
+      suspectedInjection: true,
+      injectionSignals: signals,
+      flaggedForReview: true
+    });
+  }
+
+  private async cancelCalendarEvents(events: CalendarEventRecord[], clients: UserGoogleClients): Promise<void> {
+    for (const event of events) {
+      await clients.calendar.deleteEvent(event.googleEventId, event.calendarId);
+      await this.calendarRepository.markEventCancelled(event.id);
+      console.log(`🤖 ✅ Cancelled meeting ${event.googleEventId} with ${event.attendeeEmail} on ${event.startTime.toISOString()}`);
+    }
+  }
+
+  private extractSenderEmail(from: string): string {
+    return from.includes('<') ? from.split('<')[1].replace('>', '') : from;
+  }
+
+  private logFailedValidation(validation: ReplyValidationReport): void {
+    if (!validation.passed) {
+      console.warn(`🚧 Generated reply failed ${validation.issues.length} guardrail check(s), keeping it as a draft: ${validation.issues.map(issue => issue.message).join('; ')}`);
+    }
+  }
+
+  /**
+   * Where an analyzed demo request goes by confidence: sent automatically, drafted for
+   * approval, or only flagged. A draft bar above the auto-send bar is capped at it.
+   */
+  private routeByConfidence(confidence: number, userConfig: UserConfig): 'auto_send' | 'approval' | 'flag' {
+    if (confidence >= userConfig.autoSendMinConfidence) {
+      return 'auto_send';
+    }
+    if (confidence >= Math.min(userConfig.draftMinConfidence, userConfig.autoSendMinConfidence)) {
+      return 'approval';
+    }
+    return 'flag';
+  }
+
+  /**
+   * False once the user's monthly AI budget is spent. The email (if given) is left PENDING
+   * with the reason instead of being sent to the model.
+   */
+  private async withinAiBudget(user: User, emailRecordId?: string): Promise<boolean> {
+    const budget = await llmUsageService.getBudgetStatus(user);
+    if (!budget.exceeded) {
+      return true;
+    }
+
+    const reason = `${AI_BUDGET_PENDING_REASON}: $${budget.spentUsd.toFixed(2)} of $${budget.budgetUsd!.toFixed(2)} spent this month`;
+    console.warn(`🤖 ${reason} for ${user.email}, skipping AI`);
+    if (emailRecordId) {
+      await this.emailRepository.markAsPending(emailRecordId, reason);
+    }
+    return false;
+  }
+
+  /**
+   * Store and process one message. False when it failed (the record is marked FAILED and is
+   * processed again when the message is synced again).
+   */
+  private async processSingleEmail(userId: string, email: EmailMessage, clients: UserGoogleClients): Promise<boolean> {
     try {
-      // Check if email already exists
+      // Check if email already exists; failed ones and ones parked for the AI budget are processed again
       const existing = await this.emailRepository.findByGmailMessageId(email.id);
-      if (existing) {
+      const retry = existing?.processingStatus === ProcessingStatus.FAILED ||
+        (existing?.processingStatus === ProcessingStatus.PENDING && !!existing.pendingReason?.startsWith(AI_BUDGET_PENDING_REASON));
+      if (existing && !retry) {
         // Check if this might be a reply to a scheduled response that needs calendar event creation
         const sentScheduledResponses = await this.scheduledResponseRepository.findSentResponsesByThreadId(email.threadId);
         if (sentScheduledResponses.length > 0) {
-          await this.processReplyToScheduledResponse(userId, email, sentScheduledResponses);
+          const injectionSignals = detectPromptInjection(email);
+          await this.flagSuspectedInjection(existing.id, email, injectionSignals);
+          await this.processReplyToScheduledResponse(userId, email, sentScheduledResponses, clients, injectionSignals);
         } else {
           console.log(`🤖 Email ${email.id} already processed, skipping`);
         }
-        return;
+        return true;
       }
       let messageIdHeader: string | null = null;
-      if (userGmailService) {
-        try {
-          const fullMessage = await userGmailService.getMessage(email.id);
-          messageIdHeader = this.extractMessageIdHeader(fullMessage);
-          console.log(`📧 Extracted Message-ID: ${messageIdHeader}`);
-        } catch (error) {
-          console.warn(`📧 Could not extract Message-ID for ${email.id}:`, error);
-        }
+      try {
+        const fullMessage = await clients.gmail.getMessage(email.id);
+        messageIdHeader = this.extractMessageIdHeader(fullMessage);
+        console.log(`📧 Extracted Message-ID: ${messageIdHeader}`);
+      } catch (error) {
+        console.warn(`📧 Could not extract Message-ID for ${email.id}:`, error);
       }
 
       // Determine if this email is inbound (sent TO user) or outbound (sent BY user)
@@ -248,13 +634,13 @@ export class EmailProcessingJob {
         console.error(`🤖   - Email from: ${emailFrom}`);
         console.error(`🤖   - Email to: ${emailTo}`);
         console.error(`🤖   - Subject: ${email.subject}`);
-        return;
+        return true;
       }
       
       console.log(`🤖 Processing ${isInboundEmail ? 'INBOUND' : 'OUTBOUND'} email: ${email.subject}`);
 
       // Store email in database first (for complete logging)
-      const emailRecord = await this.emailRepository.create({
+      const emailRecord = existing || await this.emailRepository.create({
         userId,
         gmailMessageId: email.id,
         gmailThreadId: email.threadId,
@@ -276,7 +662,7 @@ export class EmailProcessingJob {
       if (!isInboundEmail) {
         console.log(`🤖 Outbound email logged: ${email.subject}`);
         await this.emailRepository.markAsProcessed(emailRecord.id, false);
-        return;
+        return true;
       }
 
       // 1. Pre-filtering - Skip newsletters, bounces, etc. (only for inbound emails)
@@ -285,17 +671,16 @@ export class EmailProcessingJob {
         await this.emailRepository.update(emailRecord.id, {
           processingStatus: ProcessingStatus.SKIPPED
         });
-        return;
+        return true;
       }
 
       // 2. AI Analysis - Use MCP-integrated AI
       console.log(`🤖 Using AI-MCP analysis for: ${email.subject}`);
-      await this.processEmailWithMCP(userId, email, emailRecord, user!);
-      
+      await this.processEmailWithMCP(userId, email, emailRecord, user!, clients);
+      return true;
     } catch (error) {
       console.error(`🤖 Error processing email:`, error);
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      
+
       try {
         // Try to find the email record to mark as failed
         const existing = await this.emailRepository.findByGmailMessageId(email.id);
@@ -305,6 +690,7 @@ export class EmailProcessingJob {
       } catch (markFailedError) {
         console.error('🤖 Error marking email as failed:', markFailedError);
       }
+      return false;
     }
   }
 
@@ -362,15 +748,22 @@ export class EmailProcessingJob {
   }
 
 
-  // Manual trigger for testing
+  // Manual trigger for testing: enqueue syncs and run them now
   async triggerProcessing(): Promise<void> {
-    return this.processEmails();
+    await this.processEmails();
+    await jobQueue.processAvailable();
   }
 
+  /**
+   * Book the slot a reply accepts. A reply with prompt injection signals is untrusted like any
+   * inbound email: nothing is booked automatically and a follow-up always waits for approval.
+   */
   private async processReplyToScheduledResponse(
     userId: string,
     email: EmailMessage,
-    sentScheduledResponses: any[]
+    sentScheduledResponses: any[],
+    clients: UserGoogleClients,
+    injectionSignals: string[]
   ): Promise<void> {
     try {
       console.log(`🤖 Processing reply to scheduled response for email: ${email.subject}`);
@@ -405,44 +798,101 @@ export class EmailProcessingJob {
         return;
       }
 
+      const replyEmailRecord = await this.emailRepository.findByGmailMessageId(email.id);
+      if (replyEmailRecord?.acceptanceOutcome) {
+        console.log(`🤖 Reply ${email.id} already handled (${replyEmailRecord.acceptanceOutcome}), skipping`);
+        return;
+      }
+
+      if (!(await this.withinAiBudget(user))) {
+        return;
+      }
+
       console.log(`🤖 Analyzing reply for calendar event creation...`);
       
       // Use AI to analyze the reply and determine if a calendar event should be created
-      const mcpAnalysis = await openaiService.analyzeReplyForCalendarEvent(email, latestScheduledResponse);
+      const mcpAnalysis = await openaiService.forUser(user).analyzeReplyForCalendarEvent(
+        email,
+        latestScheduledResponse,
+        await promptTemplateService.getActive(userId, 'reply_analysis'),
+        await userConfigService.getConfigForUser(user),
+        trace => this.aiAnalysisRepository.record(userId, replyEmailRecord?.id || null, trace)
+      );
       
       if (mcpAnalysis.shouldCreateEvent && mcpAnalysis.selectedTimeSlot) {
         console.log(`🤖 AI determined calendar event should be created`);
+
+        const { start: selectedStart, end: selectedEnd } = mcpAnalysis.selectedTimeSlot;
+
+        // The slot was free when proposed; make sure nobody booked it since (our own holds don't count)
+        const holds = await this.calendarRepository.findHoldsByScheduledResponse(latestScheduledResponse.id);
+        const stillFree = await clients.calendar.isSlotFree(
+          selectedStart,
+          selectedEnd,
+          holds.map(hold => hold.googleEventId)
+        );
+
+        if (!stillFree) {
+          await this.proposeAlternativeSlots(
+            user, email, latestScheduledResponse, replyEmailRecord, selectedStart, selectedEnd, clients, injectionSignals.length > 0
+          );
+          return;
+        }
+
+        // The reply is already flagged for review; the user books the slot themselves
+        if (injectionSignals.length > 0) {
+          console.warn(`🛡️ Booking of ${selectedStart.toISOString()} held for review: the reply has possible prompt injection`);
+          return;
+        }
         
         // Create calendar event using the selected time slot
-        const calendarEvent = await calendarService.create_calendar_event({
+        const calendarEvent = await clients.calendar.create_calendar_event({
           summary: `Meeting with ${email.from.split('<')[0].trim() || 'Guest'}`,
           description: `Meeting scheduled based on email conversation`,
-          startDateTime: mcpAnalysis.selectedTimeSlot.start,
-          endDateTime: mcpAnalysis.selectedTimeSlot.end,
+          startDateTime: selectedStart.toISOString(),
+          endDateTime: selectedEnd.toISOString(),
           attendeeEmail: attendeeEmail,
           attendeeName: email.from.split('<')[0].trim() || email.from
         });
 
         console.log(`🤖 ✅ Calendar event created: ${calendarEvent.id}`);
         
-        // Store calendar event record in database
-        // We need to find the email record for this reply email, not use the scheduled response ID
-        const replyEmailRecord = await this.emailRepository.findByGmailMessageId(email.id);
-        
+        // Store calendar event record in database, linked to the reply email's record (can be null)
         await this.calendarRepository.create({
           userId,
           emailRecordId: replyEmailRecord?.id, // Use the reply email's record ID, can be null
           googleEventId: calendarEvent.id!,
           calendarId: 'primary',
           summary: calendarEvent.summary,
-          startTime: new Date(mcpAnalysis.selectedTimeSlot.start),
-          endTime: new Date(mcpAnalysis.selectedTimeSlot.end),
+          startTime: selectedStart,
+          endTime: selectedEnd,
           timezone: calendarEvent.start.timezone || 'UTC',
           attendeeEmail: attendeeEmail,
           attendeeName: email.from.split('<')[0].trim() || email.from
         });
 
         console.log(`🤖 ✅ Calendar event record saved to database`);
+
+        if (replyEmailRecord) {
+          await this.emailRepository.update(replyEmailRecord.id, {
+            acceptanceOutcome: SlotAcceptanceOutcome.BOOKED,
+            acceptedSlotStart: selectedStart,
+            acceptedSlotEnd: selectedEnd
+          });
+        }
+
+        // The other proposed slots no longer need to be kept free
+        await calendarHoldService.releaseHolds(latestScheduledResponse.id, 'slot accepted', clients.calendar);
+
+        // A reschedule is done once the new time is booked: cancel the meeting it replaces
+        const proposalEmail = latestScheduledResponse.emailRecordId
+          ? await this.emailRepository.findById(latestScheduledResponse.emailRecordId)
+          : null;
+        if (proposalEmail?.intentAction === IntentAction.RESCHEDULE) {
+          const previousMeetings = (await this.calendarRepository.findUpcomingMeetingsWith(userId, attendeeEmail))
+            .filter(meeting => meeting.googleEventId !== calendarEvent.id);
+          await this.cancelCalendarEvents(previousMeetings, clients);
+        }
       } else {
         console.log(`🤖 AI determined no calendar event needed: ${mcpAnalysis.reason || 'No clear time slot acceptance'}`);
       }
@@ -452,12 +902,140 @@ export class EmailProcessingJob {
     }
   }
 
-  getStatus(): { isRunning: boolean; isStarted: boolean; lastRun?: Date; nextRun?: Date } {
+  /**
+   * The prospect accepted a slot that has been booked since it was proposed: schedule a follow-up
+   * on the same thread apologising and offering the nearest free alternatives. It is routed by the
+   * confidence of the original proposal like any reply: sent right away only at auto-send
+   * confidence, without injection signals in the prospect's reply, with alternatives to offer
+   * and when it passes the guardrail checks; otherwise
+   * it waits for approval, or below the draft confidence the reply is only flagged for review.
+   */
+  private async proposeAlternativeSlots(
+    user: User,
+    email: EmailMessage,
+    acceptedResponse: ScheduledResponse,
+    replyEmailRecord: EmailRecord | null,
+    selectedStart: Date,
+    selectedEnd: Date,
+    clients: UserGoogleClients,
+    suspectedInjection: boolean
+  ): Promise<void> {
+    console.log(`🤖 ⚠️  Accepted slot ${selectedStart.toISOString()} is no longer free, proposing alternatives`);
+
+    // The original proposal is void. Its holds go first: they still block its other slots, which
+    // are the nearest alternatives. A follow-up places its own holds when sent.
+    await calendarHoldService.releaseHolds(acceptedResponse.id, 'accepted slot taken', clients.calendar);
+
+    const userConfig = await userConfigService.getConfigForUser(user);
+    // Proposals from before confidence was recorded are never sent automatically
+    let route = acceptedResponse.confidence === null ? 'approval' : this.routeByConfidence(acceptedResponse.confidence, userConfig);
+    if (suspectedInjection && route === 'auto_send') {
+      route = 'approval';
+    }
+    if (route === 'flag') {
+      console.log(`🤖 Accepted slot conflict flagged for review (proposal confidence: ${acceptedResponse.confidence})`);
+      await this.recordSlotConflict(replyEmailRecord, selectedStart, selectedEnd, true);
+      return;
+    }
+
+    const timeZone = clients.calendar.timeZone;
+    const selectedLocal = getZonedParts(selectedStart, timeZone);
+    const pad = (value: number) => String(value).padStart(2, '0');
+
+    // Rank the same day and time of day first so the alternatives are the nearest ones
+    const alternatives = await clients.calendar.find_available_slots({
+      timeMin: new Date().toISOString(),
+      timeMax: new Date(selectedStart.getTime() + ALTERNATIVE_SEARCH_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+      duration: Math.round((selectedEnd.getTime() - selectedStart.getTime()) / 60000),
+      preferences: {
+        specificDates: [formatLocalDate(selectedLocal)],
+        preferredTimes: [`${pad(selectedLocal.hour)}:${pad(selectedLocal.minute)}`],
+        timezone: timeZone
+      }
+    });
+
+    // Labelled in the zone the original proposal was shown in
+    const recipient = { timeZone: acceptedResponse.prospectTimeZone, locale: userConfig.locale };
+    const proposedSlots = openaiService.toProposedTimeSlots(alternatives, timeZone, recipient);
+    const template = await promptTemplateService.getActive(user.id, 'alternative_slots_reply');
+    const reply = await openaiService.forUser(user).draftAlternativeSlotsReply(
+      email,
+      openaiService.toProposedTimeSlots([{ start: selectedStart, end: selectedEnd }], timeZone, recipient)[0],
+      proposedSlots,
+      userConfig,
+      template,
+      await replyStyleService.getGuidance(user.id, userConfig.piiRedactionCategories)
+    );
+
+    // The booked slot the reply apologises for may be mentioned too
+    const validation = replyGuardrailService.validate(reply.unsignedResponse, {
+      slots: proposedSlots,
+      mentionable: [{ start: selectedStart, end: selectedEnd }],
+      timeZone,
+      bannedPhrases: userConfig.bannedReplyPhrases
+    });
+    this.logFailedValidation(validation);
+
+    // Without alternatives there is nothing for the guardrail to check against
+    const requiresApproval = route === 'approval' || alternatives.length === 0 || !validation.passed;
+
+    const followUp = await this.scheduledResponseRepository.create({
+      userId: user.id,
+      // Reply to the prospect's acceptance so the follow-up lands on the same thread
+      emailRecordId: replyEmailRecord?.id || acceptedResponse.emailRecordId,
+      recipientEmail: acceptedResponse.recipientEmail,
+      recipientName: acceptedResponse.recipientName || undefined,
+      subject: acceptedResponse.subject,
+      body: reply.emailResponse,
+      proposedTimeSlots: alternatives.map((slot, i) => ({
+        start: slot.start,
+        end: slot.end,
+        timezone: timeZone,
+        formatted: proposedSlots[i].formatted,
+      })) as Prisma.InputJsonValue,
+      scheduledAt: new Date(),
+      status: requiresApproval ? ResponseStatus.DRAFT : ResponseStatus.SCHEDULED,
+      promptTemplateId: template.id,
+      promptVersion: template.version,
+      confidence: acceptedResponse.confidence ?? undefined,
+      requiresApproval,
+      validationReport: validation as unknown as Prisma.InputJsonValue,
+      prospectTimeZone: acceptedResponse.prospectTimeZone || undefined
+    });
+
+    await this.recordSlotConflict(replyEmailRecord, selectedStart, selectedEnd, false);
+
+    console.log(`🤖 ✅ Follow-up response ${followUp.id} ${requiresApproval ? 'drafted for approval' : 'scheduled'} with ${alternatives.length} alternative slots`);
+  }
+
+  private async recordSlotConflict(
+    replyEmailRecord: EmailRecord | null,
+    selectedStart: Date,
+    selectedEnd: Date,
+    flagForReview: boolean
+  ): Promise<void> {
+    if (replyEmailRecord) {
+      await this.emailRepository.update(replyEmailRecord.id, {
+        acceptanceOutcome: SlotAcceptanceOutcome.SLOT_CONFLICT,
+        acceptedSlotStart: selectedStart,
+        acceptedSlotEnd: selectedEnd,
+        ...(flagForReview ? { flaggedForReview: true } : {})
+      });
+    }
+  }
+
+  async getStatus(): Promise<{ isRunning: boolean; isStarted: boolean; lastRun?: Date; nextRun?: Date; queue: JobQueueStats }> {
+    const [queue, lastRun] = await Promise.all([
+      jobQueue.getStats(BackgroundJobType.SYNC_USER_EMAILS),
+      jobQueue.getLastCompletedAt(BackgroundJobType.SYNC_USER_EMAILS)
+    ]);
+
     return {
-      isRunning: this.isRunning,
-      isStarted: true, // CronJob doesn't expose running property
-      lastRun: undefined, // CronJob lastDate/nextDate have type issues
-      nextRun: undefined
+      isRunning: queue.running > 0,
+      isStarted: this.cronJob.isActive,
+      lastRun: lastRun || undefined,
+      nextRun: this.cronJob.isActive ? this.cronJob.nextDate().toJSDate() : undefined,
+      queue
     };
   }
 
@@ -468,18 +1046,12 @@ export class EmailProcessingJob {
     timeSlots: any[]
   ): Promise<void> {
     try {
-      const slackWebhookUrl = process.env.SLACK_NOTIFICATION_URL;
-      
-      if (!slackWebhookUrl) {
-        console.log('🤖 SLACK_NOTIFICATION_URL not configured, skipping Slack notification');
-        return;
-      }
-
       const slotsText = timeSlots
         .map((slot, index) => `${index + 1}. ${slot.formatted}`)
         .join('\n');
+      const preview = replaceSlotTokens(scheduledResponse.body, timeSlots.map(slot => slot.formatted));
 
-      const message = {
+      await this.postToSlack({
         text: "🎯 Demo Request Received & Auto-Reply Generated!",
         blocks: [
           {
@@ -498,7 +1070,9 @@ export class EmailProcessingJob {
               },
               {
                 type: "mrkdwn",
-                text: `*Subject:* ${email.subject}\n*Scheduled At:* ${scheduledResponse.scheduledAt.toLocaleString()}`
+                text: scheduledResponse.requiresApproval
+                  ? `*Subject:* ${email.subject}\n*Awaiting approval* (confidence ${Math.round(scheduledResponse.confidence * 100)}%)`
+                  : `*Subject:* ${email.subject}\n*Scheduled At:* ${scheduledResponse.scheduledAt.toLocaleString()}`
               }
             ]
           },
@@ -513,7 +1087,7 @@ export class EmailProcessingJob {
             type: "section",
             text: {
               type: "mrkdwn",
-              text: `*Auto-Generated Reply Preview:*\n_${scheduledResponse.body.substring(0, 200)}${scheduledResponse.body.length > 200 ? '...' : ''}_`
+              text: `*Auto-Generated Reply Preview:*\n_${preview.substring(0, 200)}${preview.length > 200 ? '...' : ''}_`
             }
           },
           {
@@ -539,25 +1113,90 @@ export class EmailProcessingJob {
             ]
           }
         ]
-      };
-
-      const response = await fetch(slackWebhookUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(message),
       });
+    } catch (error) {
+      console.error('🤖 ❌ Error sending Slack notification:', error);
+    }
+  }
 
-      if (response.ok) {
-        console.log('🤖 ✅ Slack notification sent successfully');
-      } else {
-        console.error('🤖 ❌ Failed to send Slack notification:', response.status, response.statusText);
-      }
+  /**
+   * Tell the team about an email the assistant did not answer itself
+   */
+  private async sendSlackHandoff(email: EmailMessage, mcpAnalysis: MCPAnalysisResult, outcome: string): Promise<void> {
+    try {
+      await this.postToSlack({
+        text: `📨 ${mcpAnalysis.intent} email: ${outcome}`,
+        blocks: [
+          {
+            type: "header",
+            text: {
+              type: "plain_text",
+              text: `📨 ${mcpAnalysis.intent.replace('_', ' ')} (${mcpAnalysis.urgency} urgency)`
+            }
+          },
+          {
+            type: "section",
+            fields: [
+              {
+                type: "mrkdwn",
+                text: `*Contact:* ${mcpAnalysis.contactInfo.name}\n*Email:* ${mcpAnalysis.contactInfo.email}`
+              },
+              {
+                type: "mrkdwn",
+                text: `*Subject:* ${email.subject}\n*Outcome:* ${outcome}`
+              }
+            ]
+          },
+          {
+            type: "section",
+            text: {
+              type: "mrkdwn",
+              text: `*Why:* _${mcpAnalysis.reasoning.substring(0, 300)}_`
+            }
+          },
+          {
+            type: "actions",
+            elements: [
+              {
+                type: "button",
+                text: {
+                  type: "plain_text",
+                  text: "📊 Open Dashboard"
+                },
+                url: `${process.env.DASHBOARD_URL || 'http://localhost:3000'}`,
+                style: "primary"
+              }
+            ]
+          }
+        ]
+      });
     } catch (error) {
       console.error('🤖 ❌ Error sending Slack notification:', error);
     }
   }
+
+  private async postToSlack(message: Record<string, unknown>): Promise<void> {
+    const slackWebhookUrl = process.env.SLACK_NOTIFICATION_URL;
+
+    if (!slackWebhookUrl) {
+      console.log('🤖 SLACK_NOTIFICATION_URL not configured, skipping Slack notification');
+      return;
+    }
+
+    const response = await fetch(slackWebhookUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(message),
+    });
+
+    if (response.ok) {
+      console.log('🤖 ✅ Slack notification sent successfully');
+    } else {
+      console.error('🤖 ❌ Failed to send Slack notification:', response.status, response.statusText);
+    }
+  }
 }
 
 // Export singleton
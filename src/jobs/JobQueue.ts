@@ -0,0 +1,200 @@
+import { JobRepository } from '@/database/repositories/JobRepository';
+import { JobQueueStats, JobRetryPolicy } from '@/types';
+import { config } from '@/utils/config';
+import { BackgroundJob, BackgroundJobStatus, BackgroundJobType, Prisma } from '@prisma/client';
+import { CronJob } from 'cron';
+import os from 'os';
+
+export type JobHandler = (job: BackgroundJob) => Promise<void>;
+
+export interface JobHandlerOptions {
+  retryPolicy?: JobRetryPolicy;
+  // Called once a job exhausts its attempts and moves to the dead-letter state
+  onDead?: (job: BackgroundJob, error: string) => Promise<void>;
+}
+
+interface RegisteredHandler {
+  handler: JobHandler;
+  retryPolicy: JobRetryPolicy;
+  onDead?: (job: BackgroundJob, error: string) => Promise<void>;
+}
+
+const LEASE_MS = 5 * 60 * 1000; // 5 minutes, renewed while the handler runs
+const HEARTBEAT_MS = 60 * 1000;
+const SUCCEEDED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Postgres-backed job queue. Jobs survive restarts; workers lease jobs, renew the lease
+ * while running, and retry failures with exponential backoff before dead-lettering them.
+ */
+export class JobQueue {
+  private pollJob: CronJob;
+  private cleanupJob: CronJob;
+  private jobRepository: JobRepository;
+  private handlers = new Map<BackgroundJobType, RegisteredHandler>();
+  private isDraining: boolean = false;
+  readonly workerId = `${os.hostname()}:${process.pid}`;
+
+  constructor() {
+    this.jobRepository = new JobRepository();
+
+    // Poll every 10 seconds for due jobs
+    this.pollJob = new CronJob('*/10 * * * * *', () => {
+      this.processAvailable().catch((error) => {
+        console.error('📋 Job queue poll failed:', error);
+      });
+    }, null, false, 'America/Los_Angeles');
+
+    this.cleanupJob = new CronJob('0 0 * * * *', () => {
+      this.cleanup().catch((error) => {
+        console.error('📋 Job queue cleanup failed:', error);
+      });
+    }, null, false, 'America/Los_Angeles');
+  }
+
+  register(type: BackgroundJobType, handler: JobHandler, options: JobHandlerOptions = {}): void {
+    this.handlers.set(type, {
+      handler,
+      retryPolicy: options.retryPolicy || {
+        retryAttempts: config.monitoring.retryAttempts,
+        retryDelayMs: config.monitoring.retryDelayMs
+      },
+      onDead: options.onDead
+    });
+  }
+
+  async enqueue(
+    type: BackgroundJobType,
+    payload: Prisma.InputJsonValue,
+    options: { dedupeKey?: string; runAt?: Date } = {}
+  ): Promise<BackgroundJob> {
+    const maxAttempts = this.handlers.get(type)?.retryPolicy.retryAttempts ?? config.monitoring.retryAttempts;
+
+    return this.jobRepository.enqueue({
+      type,
+      payload,
+      dedupeKey: options.dedupeKey,
+      runAt: options.runAt,
+      maxAttempts: Math.max(maxAttempts, 1)
+    });
+  }
+
+  start(): void {
+    console.log(`📋 Starting Job Queue worker ${this.workerId} - polling every 10 seconds`);
+    this.pollJob.start();
+    this.cleanupJob.start();
+  }
+
+  stop(): void {
+    console.log('📋 Stopping Job Queue worker');
+    this.pollJob.stop();
+    this.cleanupJob.stop();
+  }
+
+  /**
+   * Run due jobs until the queue is empty. Overlapping polls in this process are skipped;
+   * other processes coordinate through the row-level lease.
+   */
+  async processAvailable(): Promise<number> {
+    if (this.isDraining) {
+      return 0;
+    }
+
+    this.isDraining = true;
+    let processed = 0;
+
+    try {
+      const types = Array.from(this.handlers.keys());
+
+      while (true) {
+        const job = await this.jobRepository.claimNext(types, this.workerId, LEASE_MS);
+        if (!job) {
+          break;
+        }
+
+        await this.runJob(job);
+        processed++;
+      }
+    } finally {
+      this.isDraining = false;
+    }
+
+    return processed;
+  }
+
+  private async runJob(job: BackgroundJob): Promise<void> {
+    const registered = this.handlers.get(job.type);
+    if (!registered) {
+      return;
+    }
+
+    // A job reclaimed after a crash may already have used its final attempt
+    if (job.attempts > job.maxAttempts) {
+      await this.fail(job, registered, 'Lease expired during final attempt');
+      return;
+    }
+
+    console.log(`📋 Running ${job.type} job ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`);
+
+    const heartbeat = setInterval(() => {
+      this.jobRepository.extendLease(job.id, this.workerId, LEASE_MS).then((extended) => {
+        if (!extended) {
+          console.warn(`📋 Lost lease on job ${job.id}`);
+        }
+      }).catch((error) => {
+        console.error(`📋 Failed to extend lease on job ${job.id}:`, error);
+      });
+    }, HEARTBEAT_MS);
+
+    try {
+      await registered.handler(job);
+      await this.jobRepository.markSucceeded(job.id, this.workerId);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`📋 ${job.type} job ${job.id} failed:`, error);
+      await this.fail(job, registered, message);
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  private async fail(job: BackgroundJob, registered: RegisteredHandler, message: string): Promise<void> {
+    const status = await this.jobRepository.markFailed(job, this.workerId, message, registered.retryPolicy.retryDelayMs);
+
+    if (status !== BackgroundJobStatus.DEAD) {
+      return;
+    }
+
+    console.error(`📋 ☠️ ${job.type} job ${job.id} moved to dead letter after ${job.attempts} attempts`);
+
+    if (registered.onDead) {
+      try {
+        await registered.onDead(job, message);
+      } catch (error) {
+        console.error(`📋 Dead-letter handler failed for job ${job.id}:`, error);
+      }
+    }
+  }
+
+  private async cleanup(): Promise<void> {
+    const deleted = await this.jobRepository.deleteSucceededBefore(new Date(Date.now() - SUCCEEDED_RETENTION_MS));
+    if (deleted > 0) {
+      console.log(`📋 Removed ${deleted} succeeded jobs older than 7 days`);
+    }
+  }
+
+  async getStats(type?: BackgroundJobType): Promise<JobQueueStats> {
+    return this.jobRepository.getStats(type);
+  }
+
+  async getLastCompletedAt(type: BackgroundJobType): Promise<Date | null> {
+    return this.jobRepository.findLastCompletedAt(type);
+  }
+
+  async countActive(type: BackgroundJobType): Promise<number> {
+    return this.jobRepository.countActive(type);
+  }
+}
+
+// Export singleton
+export const jobQueue = new JobQueue();
@@ -0,0 +1,63 @@
+import { SchedulerLeaseRepository } from '@/database/repositories/SchedulerLeaseRepository';
+import { CronJob } from 'cron';
+import { jobQueue } from './JobQueue';
+
+const LEASE_NAME = 'cron-scheduler';
+const LEASE_TTL_MS = 45 * 1000;
+
+/**
+ * Elects one instance to run the cron schedules that enqueue work.
+ * Every instance still runs queue workers; only the schedules are leader-only.
+ */
+export class LeaderElection {
+  private renewJob: CronJob;
+  private leaseRepository: SchedulerLeaseRepository;
+  private leader: boolean = false;
+
+  constructor() {
+    this.leaseRepository = new SchedulerLeaseRepository();
+
+    // Renew every 15 seconds, well inside the lease TTL
+    this.renewJob = new CronJob('*/15 * * * * *', () => {
+      this.renew();
+    }, null, false, 'America/Los_Angeles');
+  }
+
+  get isLeader(): boolean {
+    return this.leader;
+  }
+
+  async start(): Promise<void> {
+    await this.renew();
+    this.renewJob.start();
+  }
+
+  async stop(): Promise<void> {
+    this.renewJob.stop();
+
+    if (this.leader) {
+      this.leader = false;
+      await this.leaseRepository.release(LEASE_NAME, jobQueue.workerId);
+      console.log(`👑 ${jobQueue.workerId} released scheduler leadership`);
+    }
+  }
+
+  private async renew(): Promise<void> {
+    let acquired: boolean;
+    try {
+      acquired = await this.leaseRepository.tryAcquire(LEASE_NAME, jobQueue.workerId, LEASE_TTL_MS);
+    } catch (error) {
+      // Without a confirmed lease, step down so two instances never schedule at once
+      console.error('👑 Failed to renew scheduler lease:', error);
+      acquired = false;
+    }
+
+    if (acquired !== this.leader) {
+      console.log(`👑 ${jobQueue.workerId} ${acquired ? 'is now' : 'is no longer'} the scheduler leader`);
+    }
+    this.leader = acquired;
+  }
+}
+
+// Export singleton
+export const leaderElection = new LeaderElection();
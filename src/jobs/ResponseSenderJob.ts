@@ -1,21 +1,41 @@
 import { ScheduledResponseRepository } from '@/database/repositories/ScheduledResponseRepository';
-import { gmailService } from '@/services/GmailService';
+import { calendarHoldService } from '@/services/CalendarHoldService';
+import { googleClientFactory, UserGoogleClients } from '@/services/GoogleClientFactory';
+import { JobQueueStats, SendScheduledResponsePayload } from '@/types';
+import { formatSlotForRecipient, replaceSlotTokens, unknownSlotTokens } from '@/utils/slotFormatting';
+import { BackgroundJob, BackgroundJobType, ResponseStatus, User } from '@prisma/client';
 import { CronJob } from 'cron';
+import { jobQueue } from './JobQueue';
+import { leaderElection } from './LeaderElection';
 
 export class ResponseSenderJob {
   private cronJob: CronJob;
   private scheduledResponseRepository: ScheduledResponseRepository;
-  private isRunning: boolean = false;
-  private lastEmailSentAt: Date | null = null;
   private readonly EMAIL_SEND_INTERVAL_MS = 10 * 60 * 1000; // 10 minutes in milliseconds
+  private readonly MAX_RESPONSE_AGE_MS = 6 * 60 * 60 * 1000; // 6 hours in milliseconds
+  private readonly STALE_SENDING_MS = 15 * 60 * 1000; // SENDING longer than this means the worker died mid-send
 
   constructor() {
     this.scheduledResponseRepository = new ScheduledResponseRepository();
     
     // Run every minute: '0 * * * * *'
     this.cronJob = new CronJob('0 * * * * *', () => {
-      this.sendQueuedResponses();
+      if (!leaderElection.isLeader) {
+        return;
+      }
+
+      this.sendQueuedResponses().catch((error) => {
+        console.error('📤 Response sending failed:', error);
+      });
     }, null, false, 'America/Los_Angeles');
+
+    jobQueue.register(BackgroundJobType.SEND_SCHEDULED_RESPONSE, (job) => this.handleSendJob(job), {
+      onDead: async (job, error) => {
+        const { scheduledResponseId } = job.payload as unknown as SendScheduledResponsePayload;
+        console.error(`📤 Giving up on response ${scheduledResponseId}: ${error}`);
+        await this.scheduledResponseRepository.markAsFailed(scheduledResponseId);
+      }
+    });
   }
 
   start() {
@@ -28,59 +48,84 @@ export class ResponseSenderJob {
     this.cronJob.stop();
   }
 
+  /**
+   * Enqueue a send job for the next ready response, respecting the 1 email per 10 minutes limit
+   */
   async sendQueuedResponses() {
-    if (this.isRunning) {
-      console.log('📤 Response sender already running, skipping...');
+    const staleCount = await this.scheduledResponseRepository.markStaleSendingAsFailed(
+      new Date(Date.now() - this.STALE_SENDING_MS)
+    );
+    if (staleCount > 0) {
+      console.log(`📤 ⚠️  Marked ${staleCount} response(s) stuck in SENDING as failed`);
+    }
+
+    // Only one send in flight at a time so the rate limit holds across retries
+    if (await jobQueue.countActive(BackgroundJobType.SEND_SCHEDULED_RESPONSE) > 0) {
       return;
     }
 
-    this.isRunning = true;
+    const remainingWaitMs = await this.getRateLimitWaitMs();
+    if (remainingWaitMs > 0) {
+      console.log(`📤 Rate limiting: Must wait ${Math.ceil(remainingWaitMs / 60000)} more minutes before sending next email`);
+      return;
+    }
 
-    try {
-      // Check rate limiting - only send 1 email per 10 minutes
-      const now = new Date();
-      if (this.lastEmailSentAt) {
-        const timeSinceLastEmail = now.getTime() - this.lastEmailSentAt.getTime();
-        if (timeSinceLastEmail < this.EMAIL_SEND_INTERVAL_MS) {
-          const remainingWaitTime = Math.ceil((this.EMAIL_SEND_INTERVAL_MS - timeSinceLastEmail) / 60000);
-          console.log(`📤 Rate limiting: Must wait ${remainingWaitTime} more minutes before sending next email`);
-          return;
-        }
-      }
+    // Get responses ready to send (limit to 1 due to rate limiting)
+    const readyResponses = await this.scheduledResponseRepository.findReadyToSend(1);
+    
+    if (readyResponses.length === 0) {
+      return; // No responses to send
+    }
 
-      // Get responses ready to send (limit to 1 due to rate limiting)
-      const readyResponses = await this.scheduledResponseRepository.findReadyToSend(1);
-      
-      if (readyResponses.length === 0) {
-        return; // No responses to send
-      }
+    const response = readyResponses[0];
+    const payload: SendScheduledResponsePayload = { scheduledResponseId: response.id };
 
-      console.log(`📤 Found ${readyResponses.length} response(s) ready to send`);
+    await jobQueue.enqueue(BackgroundJobType.SEND_SCHEDULED_RESPONSE, { ...payload }, {
+      dedupeKey: `send:${response.id}`
+    });
 
-      // Send only the first response (rate limited to 1 email per 10 minutes)
-      const response = readyResponses[0];
-      
-      // Check if this response is too old (expired)
-      const responseAge = now.getTime() - new Date(response.createdAt).getTime();
-      const maxAge = 6 * 60 * 60 * 1000; // 6 hours in milliseconds
-      
-      if (responseAge > maxAge) {
-        console.log(`📤 Response ${response.id} is too old (${Math.round(responseAge / 1000 / 60 / 60)} hours), marking as expired`);
-        await this.expireResponse(response);
-      } else {
-        await this.sendResponse(response);
-        this.lastEmailSentAt = new Date();
-      }
-      
-      console.log('📤 Response sending completed');
-    } catch (error) {
-      console.error('📤 Response sending failed:', error);
-    } finally {
-      this.isRunning = false;
+    console.log(`📤 Enqueued response ${response.id} for sending`);
+  }
+
+  /**
+   * Time left before the next email may go out, based on the last sent response in the database
+   */
+  private async getRateLimitWaitMs(): Promise<number> {
+    const lastEmailSentAt = await this.scheduledResponseRepository.findLastSentAt();
+    if (!lastEmailSentAt) {
+      return 0;
+    }
+
+    const timeSinceLastEmail = Date.now() - lastEmailSentAt.getTime();
+    return Math.max(this.EMAIL_SEND_INTERVAL_MS - timeSinceLastEmail, 0);
+  }
+
+  private async handleSendJob(job: BackgroundJob): Promise<void> {
+    const { scheduledResponseId } = job.payload as unknown as SendScheduledResponsePayload;
+
+    // Claim before sending so no other instance (or retry) can send the same response
+    const response = await this.scheduledResponseRepository.claimForSending(scheduledResponseId);
+    if (!response) {
+      console.log(`📤 Response ${scheduledResponseId} is no longer scheduled, skipping`);
+      return;
+    }
+
+    // Check if this response is too old (expired); approved drafts age from their approval
+    const responseAge = Date.now() - new Date(response.approvedAt || response.createdAt).getTime();
+    
+    if (responseAge > this.MAX_RESPONSE_AGE_MS) {
+      console.log(`📤 Response ${response.id} is too old (${Math.round(responseAge / 1000 / 60 / 60)} hours), marking as expired`);
+      await this.expireResponse(response);
+      return;
     }
+
+    await this.sendResponse(response);
   }
 
   private async sendResponse(response: any) {
+    let sentMessage;
+    let user;
+    let clients: UserGoogleClients;
     try {
       console.log(`📤 Sending response to: ${response.recipientEmail}`);
       console.log(`📤 Response subject: ${response.subject}`);
@@ -90,40 +135,63 @@ export class ResponseSenderJob {
       // Get the user to set up Gmail service with their tokens
       const { UserRepository } = await import('@/database/repositories/UserRepository');
       const userRepository = new UserRepository();
-      const user = await userRepository.findById(response.userId);
+      user = await userRepository.findById(response.userId);
       
       if (!user || !user.googleTokens) {
         throw new Error(`User ${response.userId} has no Google tokens`);
       }
 
       // Create user-specific Gmail service
-      const userGmailService = gmailService;
-      userGmailService.setUserTokens(user.googleTokens.accessToken, user.googleTokens.refreshToken || '');
+      clients = await googleClientFactory.forUser(user);
+      const userGmailService = clients.gmail;
 
-      // Send email via Gmail
-      const sentMessage = await userGmailService.sendEmail({
+      // Send email via Gmail, with the slot tokens rendered for the prospect
+      sentMessage = await userGmailService.sendEmail({
         to: response.recipientEmail,
         subject: response.subject,
-        body: response.body,
+        body: this.renderBody(response, user),
         replyToMessageId: response.emailRecord?.messageIdHeader,
         threadId: response.emailRecord?.gmailThreadId
       }, response.userId);
-
-      // Mark as sent with additional tracking info
-      await this.scheduledResponseRepository.update(response.id, {
-        status: 'SENT',
-        sentAt: new Date(),
-        sentMessageId: sentMessage.id
-      });
-
-      console.log(`📤 Successfully sent response to: ${response.recipientEmail} (Message ID: ${sentMessage.id})`);
-      
     } catch (error) {
       console.error(`📤 Error sending response ${response.id}:`, error);
       
-      // Mark as failed
-      await this.scheduledResponseRepository.markAsFailed(response.id);
+      // Nothing was sent, so hand the response back to SCHEDULED and rethrow for the job queue
+      // to retry; the response is marked failed once retries run out
+      await this.scheduledResponseRepository.releaseSendingClaim(response.id);
+      throw error;
     }
+
+    // Mark as sent with additional tracking info. If this fails the response stays SENDING
+    // and is failed later rather than being sent twice.
+    const sentResponse = await this.scheduledResponseRepository.markAsSent(response.id, sentMessage.id);
+
+    console.log(`📤 Successfully sent response to: ${response.recipientEmail} (Message ID: ${sentMessage.id})`);
+
+    // Keep the proposed slots free until the prospect replies (no-op unless the user enabled holds)
+    await calendarHoldService.placeHolds(sentResponse, user, clients.calendar);
+  }
+
+  /**
+   * The body with each [[SLOT_n]] token replaced by its slot in the prospect's zone and the
+   * rep's. A token without a slot fails the send rather than reaching the prospect.
+   */
+  private renderBody(response: any, user: User): string {
+    const slots = (response.proposedTimeSlots as Array<{ start: string; timezone?: string }> | null) || [];
+    const unknown = unknownSlotTokens(response.body, slots.length);
+    if (unknown.length > 0) {
+      throw new Error(`Response ${response.id} refers to ${unknown.join(', ')} but proposes ${slots.length} slot(s)`);
+    }
+
+    const labels = slots.map(slot => {
+      const repTimeZone = slot.timezone || user.timezone;
+      return formatSlotForRecipient(new Date(slot.start), {
+        recipientTimeZone: response.prospectTimeZone || repTimeZone,
+        repTimeZone,
+        locale: user.locale
+      });
+    });
+    return replaceSlotTokens(response.body, labels);
   }
 
   private async expireResponse(response: any) {
@@ -132,6 +200,7 @@ export class ResponseSenderJob {
       
       // Mark as expired
       await this.scheduledResponseRepository.markAsExpired(response.id);
+      await calendarHoldService.releaseHolds(response.id, 'response expired');
       
       // TODO: Notify user that response expired
       console.log(`📤 ⚠️  Response expired: ${response.subject} to ${response.recipientEmail}`);
@@ -142,17 +211,24 @@ export class ResponseSenderJob {
     }
   }
 
-  // Manual trigger for testing
+  // Manual trigger for testing: enqueue the next response and run it now
   async triggerSending() {
-    return this.sendQueuedResponses();
+    await this.sendQueuedResponses();
+    await jobQueue.processAvailable();
   }
 
-  getStatus() {
+  async getStatus(): Promise<{ isRunning: boolean; isStarted: boolean; lastRun?: Date; nextRun?: Date; queue: JobQueueStats }> {
+    const [queue, lastRun] = await Promise.all([
+      jobQueue.getStats(BackgroundJobType.SEND_SCHEDULED_RESPONSE),
+      jobQueue.getLastCompletedAt(BackgroundJobType.SEND_SCHEDULED_RESPONSE)
+    ]);
+
     return {
-      isRunning: this.isRunning,
-      isStarted: true, // CronJob doesn't expose running property
-      lastRun: undefined, // CronJob lastDate/nextDate have type issues  
-      nextRun: undefined
+      isRunning: queue.running > 0,
+      isStarted: this.cronJob.isActive,
+      lastRun: lastRun || undefined,
+      nextRun: this.cronJob.isActive ? this.cronJob.nextDate().toJSDate() : undefined,
+      queue
     };
   }
 }
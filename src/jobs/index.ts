@@ -1,10 +1,14 @@
+import { calendarHoldJob } from './CalendarHoldJob';
 import { emailProcessingJob } from './EmailProcessingJob';
+import { jobQueue } from './JobQueue';
+import { leaderElection } from './LeaderElection';
 import { responseSenderJob } from './ResponseSenderJob';
 
 export class JobManager {
   private jobs = {
     emailProcessing: emailProcessingJob, // Combined sync + processing
-    responseSender: responseSenderJob
+    responseSender: responseSenderJob,
+    calendarHolds: calendarHoldJob
   };
 
   startAll(): void {
@@ -19,11 +23,24 @@ export class JobManager {
       }
     });
 
+    // Worker that runs the per-user sync and per-response send jobs enqueued by the schedules above
+    jobQueue.start();
+
+    // Schedules only fire on the instance holding the scheduler lease
+    leaderElection.start().catch((error) => {
+      console.error('❌ Failed to start leader election:', error);
+    });
+
     console.log('🚀 All jobs started');
   }
 
   stopAll(): void {
     console.log('🛑 Stopping all jobs...');
+
+    jobQueue.stop();
+    leaderElection.stop().catch((error) => {
+      console.error('❌ Failed to release scheduler leadership:', error);
+    });
     
     Object.entries(this.jobs).forEach(([name, job]) => {
       try {
@@ -37,13 +54,19 @@ export class JobManager {
     console.log('🛑 All jobs stopped');
   }
 
-  getStatus(): Record<string, any> {
-    return Object.fromEntries(
-      Object.entries(this.jobs).map(([name, job]) => [
+  async getStatus(): Promise<Record<string, any>> {
+    const statuses = await Promise.all(
+      Object.entries(this.jobs).map(async ([name, job]) => [
         name,
-        job.getStatus()
+        await job.getStatus()
       ])
     );
+
+    return {
+      ...Object.fromEntries(statuses),
+      queue: await jobQueue.getStats(),
+      isSchedulerLeader: leaderElection.isLeader
+    };
   }
 
   // Manual triggers for testing
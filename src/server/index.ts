@@ -10,6 +10,7 @@ import usersRoutes from './routes/users';
 import emailsRoutes from './routes/emails';
 import calendarEventsRoutes from './routes/calendar-events';
 import scheduledResponsesRoutes from './routes/scheduled-responses';
+import gmailRoutes from './routes/gmail';
 
 const app = express();
 
@@ -55,6 +56,7 @@ app.use('/api/users', usersRoutes);
 app.use('/api/emails', emailsRoutes);
 app.use('/api/calendar-events', calendarEventsRoutes);
 app.use('/api/scheduled-responses', scheduledResponsesRoutes);
+app.use('/api/gmail', gmailRoutes);
 
 // Root endpoint
 app.get('/', (req, res) => {
@@ -68,7 +70,8 @@ app.get('/', (req, res) => {
       users: '/api/users',
       emails: '/api/emails',
       calendarEvents: '/api/calendar-events',
-      scheduledResponses: '/api/scheduled-responses'
+      scheduledResponses: '/api/scheduled-responses',
+      gmail: '/api/gmail'
     }
   });
 });
@@ -85,7 +88,8 @@ app.use('*', (req, res) => {
       '/api/users',
       '/api/emails',
       '/api/calendar-events',
-      '/api/scheduled-responses'
+      '/api/scheduled-responses',
+      '/api/gmail'
     ]
   });
 });
@@ -155,6 +159,7 @@ async function startServer() {
         console.log('  - GET  /api/auth/status       - Check auth status');
         console.log('  - GET  /api/gmail/profile     - Get Gmail profile');
         console.log('  - GET  /api/gmail/messages    - List Gmail messages');
+        console.log('  - POST /api/gmail/push        - Gmail push notifications');
         console.log('  - GET  /api/calendar/events   - List calendar events');
         console.log('  - GET  /api/status            - System status');
       }
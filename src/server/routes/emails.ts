@@ -1,4 +1,5 @@
 import { emailController } from '@/controllers/EmailController';
+import { promptTemplateController } from '@/controllers/PromptTemplateController';
 import express from 'express';
 
 const router = express.Router();
@@ -14,5 +15,14 @@ router.get('/stats', emailController.getEmailStats.bind(emailController));
 // Search emails with filters (used by frontend)
 router.get('/', emailController.searchEmails.bind(emailController));
 
+// AI decisions about an email: intent, confidence, reasoning, model, prompt version, tokens and latency
+router.get('/:id/analysis', emailController.getAnalyses.bind(emailController));
+
+// Calendar tool calls the AI made while analyzing an email
+router.get('/:id/tool-steps', emailController.getToolSteps.bind(emailController));
+
+// Render a prompt template against this email without calling the AI
+router.post('/:id/prompt-preview', promptTemplateController.previewForEmail.bind(promptTemplateController));
+
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,50 @@
+import { emailProcessingJob } from '@/jobs/EmailProcessingJob';
+import { GmailPushNotification } from '@/types';
+import { config } from '@/utils/config';
+import express from 'express';
+
+const router = express.Router();
+
+// Gmail push notifications (Pub/Sub push subscription)
+router.post('/push', async (req, res) => {
+  try {
+    // Without a token (push not set up) every notification is rejected
+    const { verificationToken } = config.gmailPush;
+    if (!verificationToken || req.query.token !== verificationToken) {
+      return res.status(403).json({ error: 'Invalid verification token' });
+    }
+
+    const data = req.body?.message?.data;
+    if (!data) {
+      return res.status(400).json({ error: 'Missing Pub/Sub message data' });
+    }
+
+    let notification: GmailPushNotification;
+    try {
+      notification = JSON.parse(Buffer.from(data, 'base64').toString('utf8'));
+    } catch (error) {
+      return res.status(400).json({ error: 'Invalid Pub/Sub message data' });
+    }
+
+    if (!notification.emailAddress || !notification.historyId) {
+      return res.status(400).json({ error: 'Notification must include emailAddress and historyId' });
+    }
+
+    console.log(`📬 Gmail push notification for ${notification.emailAddress} (historyId ${notification.historyId})`);
+
+    // Acknowledge immediately so Pub/Sub does not redeliver while the sync runs
+    res.status(204).send();
+
+    emailProcessingJob.handlePushNotification({
+      emailAddress: notification.emailAddress,
+      historyId: String(notification.historyId)
+    }).catch((error) => {
+      console.error('📬 Failed to handle Gmail push notification:', error);
+    });
+  } catch (error) {
+    console.error('Error handling Gmail push notification:', error);
+    res.status(500).json({ error: 'Failed to handle push notification' });
+  }
+});
+
+export default router;
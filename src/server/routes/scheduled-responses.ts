@@ -1,10 +1,49 @@
-import { ScheduledResponseRepository } from '@/database/repositories/ScheduledResponseRepository';
-import { ResponseStatus } from '@prisma/client';
+import { emailRepository, userRepository } from '@/database/repositories';
+import { LOCKED_STATUSES, ScheduledResponseRepository } from '@/database/repositories/ScheduledResponseRepository';
+import { calendarHoldService } from '@/services/CalendarHoldService';
+import { replyGuardrailService } from '@/services/ReplyGuardrailService';
+import { replyStyleService } from '@/services/ReplyStyleService';
+import { userConfigService } from '@/services/UserConfigService';
+import { ReplyValidationReport } from '@/types';
+import { unknownSlotTokens } from '@/utils/slotFormatting';
+import { Prisma, ResponseStatus, ScheduledResponse } from '@prisma/client';
 import { Router } from 'express';
 
 const router = Router();
 const scheduledResponseRepository = new ScheduledResponseRepository();
 
+// Drafts below the user's auto-send confidence stay drafts until approved
+function awaitingApproval(response: ScheduledResponse): boolean {
+  return response.requiresApproval && !response.approvedAt;
+}
+
+type StoredSlot = { start: string; end: string; timezone?: string; formatted?: string };
+
+/**
+ * Guardrail report for an edited reply, checked like the generated one: in the rep's zone, against
+ * the proposed slots and, for a follow-up, the slot that was just booked
+ */
+async function revalidate(response: ScheduledResponse, body: string, slots: StoredSlot[]): Promise<ReplyValidationReport | null> {
+  const user = await userRepository.findById(response.userId);
+  if (!user) {
+    return null;
+  }
+
+  const userConfig = await userConfigService.getConfigForUser(user);
+  const emailRecord = await emailRepository.findById(response.emailRecordId);
+  const previous = response.validationReport as unknown as ReplyValidationReport | null;
+
+  return replyGuardrailService.validate(body, {
+    slots,
+    mentionable: emailRecord?.acceptedSlotStart && emailRecord.acceptedSlotEnd
+      ? [{ start: emailRecord.acceptedSlotStart, end: emailRecord.acceptedSlotEnd }]
+      : [],
+    timeZone: previous?.timeZone || slots[0]?.timezone || user.timezone,
+    bannedPhrases: userConfig.bannedReplyPhrases,
+    signature: userConfigService.generateEmailSignature(userConfig)
+  });
+}
+
 // Get all draft responses for current user
 router.get('/drafts', async (req, res) => {
   try {
@@ -40,25 +79,59 @@ router.get('/:id', async (req, res) => {
   }
 });
 
-// Update scheduled response (edit)
+// Update scheduled response (edit). The generated body is kept in originalBody, and body
+// edits feed the user's reply style profile.
 router.put('/:id', async (req, res) => {
   try {
     const { id } = req.params;
-    const { subject, body, proposedTimeSlots, scheduledAt } = req.body;
+    const { subject, body, proposedTimeSlots, scheduledAt, editedBy } = req.body;
 
-    // Mark as editing while updating
-    await scheduledResponseRepository.update(id, {
-      status: ResponseStatus.EDITING
-    });
+    const response = await scheduledResponseRepository.findById(id);
+    if (!response) {
+      return res.status(404).json({ error: 'Scheduled response not found' });
+    }
+
+    if (LOCKED_STATUSES.includes(response.status)) {
+      return res.status(409).json({ error: 'Response is already being sent' });
+    }
+
+    const storedSlots = (proposedTimeSlots ?? response.proposedTimeSlots) as unknown;
+    const slots = (Array.isArray(storedSlots) ? storedSlots : []) as StoredSlot[];
 
-    const updatedResponse = await scheduledResponseRepository.update(id, {
+    // Slot tokens are rendered at send time, so each one must stand for a proposed slot
+    if (typeof body === 'string') {
+      const unknown = unknownSlotTokens(body, slots.length);
+      if (unknown.length > 0) {
+        return res.status(400).json({ error: `Unknown slot token(s): ${unknown.join(', ')}` });
+      }
+    }
+
+    // The stored report describes the old body, so an edit is checked again; one that fails
+    // waits for approval like a generated reply that failed, even if the old body was approved
+    const validation = typeof body === 'string' || proposedTimeSlots
+      ? await revalidate(response, typeof body === 'string' ? body : response.body, slots)
+      : null;
+    const failedValidation = !!validation && !validation.passed;
+
+    // The sender may have claimed it since it was read
+    const updatedResponse = await scheduledResponseRepository.updateUnlessLocked(id, {
       subject,
       body,
       proposedTimeSlots,
       scheduledAt: scheduledAt ? new Date(scheduledAt) : undefined,
-      status: ResponseStatus.SCHEDULED,
-      lastEditedAt: new Date()
+      status: failedValidation || awaitingApproval(response) ? ResponseStatus.DRAFT : ResponseStatus.SCHEDULED,
+      ...(failedValidation && { requiresApproval: true, approvedAt: null, approvedBy: null }),
+      lastEditedAt: new Date(),
+      editedBy,
+      validationReport: validation ? validation as unknown as Prisma.InputJsonValue : undefined
     });
+    if (!updatedResponse) {
+      return res.status(409).json({ error: 'Response is already being sent' });
+    }
+
+    if (typeof body === 'string' && body !== response.body) {
+      await replyStyleService.refreshProfile(response.userId);
+    }
 
     res.json(updatedResponse);
   } catch (error) {
@@ -77,11 +150,22 @@ router.post('/:id/send', async (req, res) => {
       return res.status(404).json({ error: 'Scheduled response not found' });
     }
 
+    if (LOCKED_STATUSES.includes(response.status)) {
+      return res.status(409).json({ error: 'Response is already being sent' });
+    }
+
+    if (awaitingApproval(response)) {
+      return res.status(409).json({ error: 'Response must be approved before it can be sent' });
+    }
+
     // Mark as scheduled for immediate sending
-    await scheduledResponseRepository.update(id, {
+    const queued = await scheduledResponseRepository.updateUnlessLocked(id, {
       status: ResponseStatus.SCHEDULED,
       scheduledAt: new Date() // Send now
     });
+    if (!queued) {
+      return res.status(409).json({ error: 'Response is already being sent' });
+    }
 
     res.json({ message: 'Response queued for immediate sending' });
   } catch (error) {
@@ -90,12 +174,44 @@ router.post('/:id/send', async (req, res) => {
   }
 });
 
+// Approve a draft so it is sent at its scheduled time (or right away if that has passed)
+router.post('/:id/approve', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { approvedBy } = req.body;
+
+    const response = await scheduledResponseRepository.findById(id);
+    if (!response) {
+      return res.status(404).json({ error: 'Scheduled response not found' });
+    }
+
+    const approvedResponse = await scheduledResponseRepository.approve(id, approvedBy);
+    if (!approvedResponse) {
+      return res.status(409).json({ error: `Only draft responses can be approved (status is ${response.status})` });
+    }
+
+    res.json(approvedResponse);
+  } catch (error) {
+    console.error('Error approving scheduled response:', error);
+    res.status(500).json({ error: 'Failed to approve scheduled response' });
+  }
+});
+
 // Cancel scheduled response
 router.post('/:id/cancel', async (req, res) => {
   try {
     const { id } = req.params;
-    
+
+    if (!(await scheduledResponseRepository.findById(id))) {
+      return res.status(404).json({ error: 'Scheduled response not found' });
+    }
+
     const cancelledResponse = await scheduledResponseRepository.cancel(id);
+    if (!cancelledResponse) {
+      return res.status(409).json({ error: 'Response is already being sent' });
+    }
+
+    await calendarHoldService.releaseHolds(id, 'response cancelled');
     
     res.json(cancelledResponse);
   } catch (error) {
@@ -114,10 +230,22 @@ router.post('/:id/reschedule', async (req, res) => {
       return res.status(400).json({ error: 'New scheduled time is required' });
     }
 
-    const rescheduledResponse = await scheduledResponseRepository.update(id, {
+    const response = await scheduledResponseRepository.findById(id);
+    if (!response) {
+      return res.status(404).json({ error: 'Scheduled response not found' });
+    }
+
+    if (LOCKED_STATUSES.includes(response.status)) {
+      return res.status(409).json({ error: 'Response is already being sent' });
+    }
+
+    const rescheduledResponse = await scheduledResponseRepository.updateUnlessLocked(id, {
       scheduledAt: new Date(scheduledAt),
-      status: ResponseStatus.SCHEDULED
+      status: awaitingApproval(response) ? ResponseStatus.DRAFT : ResponseStatus.SCHEDULED
     });
+    if (!rescheduledResponse) {
+      return res.status(409).json({ error: 'Response is already being sent' });
+    }
     
     res.json(rescheduledResponse);
   } catch (error) {
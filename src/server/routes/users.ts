@@ -1,5 +1,7 @@
 import express from 'express';
 import { userController } from '@/controllers/UserController';
+import { availabilityController } from '@/controllers/AvailabilityController';
+import { promptTemplateController } from '@/controllers/PromptTemplateController';
 
 const router = express.Router();
 
@@ -10,4 +12,19 @@ router.post('/', userController.createUser.bind(userController));
 router.put('/:id', userController.updateUser.bind(userController));
 router.post('/find-or-create', userController.findOrCreateUser.bind(userController));
 
+// Reply style learned from edits to AI drafts
+router.get('/:id/reply-style', userController.getReplyStyle.bind(userController));
+
+// Weekly working hours and dated overrides
+router.get('/:id/availability', availabilityController.getAvailability.bind(availabilityController));
+router.put('/:id/availability', availabilityController.updateWeeklyHours.bind(availabilityController));
+router.post('/:id/availability/overrides', availabilityController.createOverride.bind(availabilityController));
+router.delete('/:id/availability/overrides/:overrideId', availabilityController.deleteOverride.bind(availabilityController));
+
+// Custom AI prompt templates with version history
+router.get('/:id/prompt-templates', promptTemplateController.listTemplates.bind(promptTemplateController));
+router.get('/:id/prompt-templates/:name/versions', promptTemplateController.getVersions.bind(promptTemplateController));
+router.post('/:id/prompt-templates/:name/versions', promptTemplateController.createVersion.bind(promptTemplateController));
+router.post('/:id/prompt-templates/:name/versions/:version/activate', promptTemplateController.activateVersion.bind(promptTemplateController));
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,138 @@
+import { calendarRepository, userRepository } from '@/database/repositories';
+import { UserWithTokens } from '@/database/repositories/UserRepository';
+import { CalendarEventRecord, CalendarEventStatus, ScheduledResponse } from '@prisma/client';
+import { CalendarService } from './CalendarMCP';
+import { googleClientFactory } from './GoogleClientFactory';
+
+interface StoredTimeSlot {
+  start: string;
+  end: string;
+}
+
+/**
+ * Tentative "HOLD" events on the rep's calendar for the slots a sent response proposed,
+ * so nobody else books them while the prospect decides. Holds are tracked as
+ * TENTATIVE CalendarEventRecords linked to the response.
+ */
+export class CalendarHoldService {
+
+  /**
+   * Place one hold per proposed slot. Holds expire after the user's holdTtlHours,
+   * or when the slot starts if that is sooner. Failures are logged, never thrown:
+   * the response has already been sent.
+   */
+  async placeHolds(response: ScheduledResponse, user: UserWithTokens, calendar?: CalendarService): Promise<CalendarEventRecord[]> {
+    if (!user.holdProposedSlots) {
+      return [];
+    }
+
+    const slots = (response.proposedTimeSlots as unknown as StoredTimeSlot[]) || [];
+    const now = Date.now();
+    const ttlExpiry = now + user.holdTtlHours * 60 * 60 * 1000;
+    const holds: CalendarEventRecord[] = [];
+
+    try {
+      const userCalendar = calendar || (await googleClientFactory.forUser(user)).calendar;
+
+      for (const slot of slots) {
+        const start = new Date(slot.start);
+        const end = new Date(slot.end);
+        if (isNaN(start.getTime()) || isNaN(end.getTime()) || start.getTime() <= now) {
+          continue;
+        }
+
+        try {
+          const event = await userCalendar.createHoldEvent({
+            summary: `HOLD: Demo with ${response.recipientName || response.recipientEmail}`,
+            description: `Tentative hold for a slot proposed to ${response.recipientEmail}. Released automatically if another slot is accepted or the proposal lapses.`,
+            startDateTime: start.toISOString(),
+            endDateTime: end.toISOString()
+          });
+
+          holds.push(await calendarRepository.create({
+            userId: response.userId,
+            emailRecordId: response.emailRecordId,
+            googleEventId: event.id!,
+            calendarId: 'primary',
+            summary: event.summary,
+            startTime: start,
+            endTime: end,
+            timezone: userCalendar.timeZone,
+            attendeeEmail: response.recipientEmail,
+            attendeeName: response.recipientName || undefined,
+            status: CalendarEventStatus.TENTATIVE,
+            scheduledResponseId: response.id,
+            holdExpiresAt: new Date(Math.min(ttlExpiry, start.getTime()))
+          }));
+        } catch (error) {
+          console.error(`📅 Failed to hold slot ${slot.start} for response ${response.id}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error(`📅 Failed to place holds for response ${response.id}:`, error);
+    }
+
+    if (holds.length > 0) {
+      console.log(`📅 Placed ${holds.length} hold(s) for response ${response.id}`);
+    }
+    return holds;
+  }
+
+  /**
+   * Remove every hold still placed for a response (slot accepted, response cancelled or expired)
+   */
+  async releaseHolds(scheduledResponseId: string, reason: string, calendar?: CalendarService): Promise<number> {
+    const holds = await calendarRepository.findHoldsByScheduledResponse(scheduledResponseId);
+    if (holds.length === 0) {
+      return 0;
+    }
+
+    const released = await this.releaseRecords(holds, calendar);
+    console.log(`📅 Released ${released} hold(s) for response ${scheduledResponseId} (${reason})`);
+    return released;
+  }
+
+  /**
+   * Release holds whose TTL has passed
+   */
+  async releaseExpiredHolds(): Promise<number> {
+    const holds = await calendarRepository.findExpiredHolds();
+    if (holds.length === 0) {
+      return 0;
+    }
+
+    const released = await this.releaseRecords(holds);
+    console.log(`📅 Released ${released} expired hold(s)`);
+    return released;
+  }
+
+  private async releaseRecords(holds: CalendarEventRecord[], calendar?: CalendarService): Promise<number> {
+    const calendars = new Map<string, CalendarService>();
+    let released = 0;
+
+    for (const hold of holds) {
+      try {
+        let userCalendar = calendar || calendars.get(hold.userId);
+        if (!userCalendar) {
+          const user = await userRepository.findById(hold.userId);
+          if (!user) {
+            continue;
+          }
+          userCalendar = (await googleClientFactory.forUser(user)).calendar;
+          calendars.set(hold.userId, userCalendar);
+        }
+
+        await userCalendar.deleteEvent(hold.googleEventId, hold.calendarId);
+        await calendarRepository.markEventCancelled(hold.id);
+        released++;
+      } catch (error) {
+        console.error(`📅 Failed to release hold ${hold.id}:`, error);
+      }
+    }
+
+    return released;
+  }
+}
+
+// Export singleton instance
+export const calendarHoldService = new CalendarHoldService();
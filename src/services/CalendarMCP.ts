@@ -7,12 +7,26 @@ import {
   CreateEventOptions, 
   CalendarTools,
   FindAvailableSlotsParams,
+  AvailabilityRules,
   GetCalendarEventsParams,
   CreateCalendarEventParams
 } from '@/types';
+import { getWorkingIntervals } from '@/utils/availability';
+import { rankSlots } from '@/utils/slotRanker';
+import {
+  addLocalDays,
+  formatInTimeZone,
+  getZonedParts,
+  parseTimeOfDay,
+  zonedTimeToUtc
+} from '@/utils/timezone';
 import { addDays } from 'date-fns';
 import { google } from 'googleapis';
 import { authService } from './AuthService';
+import { userConfigService } from './UserConfigService';
+
+// Upper bound on free candidates considered by the ranker
+const MAX_CANDIDATE_SLOTS = 500;
 
 /**
  * Calendar service with MCP-compatible tools for AI function calling
@@ -20,12 +34,47 @@ import { authService } from './AuthService';
  */
 export class CalendarService {
   private calendar: any;
+  private authClient: any;
+  private readonly userScoped: boolean;
+  private readonly availability: AvailabilityRules;
+
+  /**
+   * @param authClient OAuth client for a specific user (see GoogleClientFactory).
+   * When omitted, the legacy single-user authService credentials are used.
+   * @param availability The calendar owner's scheduling rules (see UserConfigService.getAvailabilityRules);
+   * business hours are interpreted in its timezone. Defaults to app-wide BusinessRules.
+   */
+  constructor(authClient?: any, availability?: AvailabilityRules) {
+    this.userScoped = !!authClient;
+    this.authClient = authClient || null;
+    this.calendar = authClient ? google.calendar({ version: 'v3', auth: authClient }) : null;
+    this.availability = availability || userConfigService.getAvailabilityRules();
+  }
+
+  /**
+   * Service over an already-built Calendar API client instead of Google's, e.g. the
+   * in-memory calendar of the offline evaluation (src/eval)
+   */
+  static withCalendarApi(calendarApi: any, availability: AvailabilityRules): CalendarService {
+    const service = new CalendarService({}, availability);
+    service.calendar = calendarApi;
+    return service;
+  }
 
-  constructor() {
-    this.calendar = null;
+  get timeZone(): string {
+    return this.availability.timezone;
+  }
+
+  getAvailabilityRules(): AvailabilityRules {
+    return this.availability;
   }
 
   private async ensureAuthenticated(): Promise<void> {
+    // User-scoped clients refresh their own tokens
+    if (this.userScoped) {
+      return;
+    }
+
     const isValid = await authService.ensureValidToken();
     if (!isValid) {
       throw new Error('Calendar MCP Service requires authentication. Please authenticate first.');
@@ -36,6 +85,7 @@ export class CalendarService {
       if (!authClient) {
         throw new Error('Failed to get authenticated client from authService');
       }
+      this.authClient = authClient;
       this.calendar = google.calendar({ version: 'v3', auth: authClient });
       console.log('Calendar MCP: Initialized calendar client successfully');
     }
@@ -43,21 +93,20 @@ export class CalendarService {
 
   /**
    * MCP Tool: Find available time slots
-   * This is designed to be called by AI via function calling
+   * This is designed to be called by AI via function calling. Returns the free slots chosen
+   * by the owner's slot selection policy (see utils/slotRanker), ranked by the prospect's preferences.
    */
   async find_available_slots(params: FindAvailableSlotsParams): Promise<TimeSlot[]> {
     await this.ensureAuthenticated();
 
     console.log('Calendar MCP: find_available_slots called with params:', JSON.stringify(params, null, 2));
 
+    const rules = this.availability;
     const {
       timeMin,
       timeMax,
-      duration = 30,
-      businessHoursStart = '09:00',
-      businessHoursEnd = '17:00',
-      workingDays = [1, 2, 3, 4, 5],
-      maxResults = 5,
+      duration = rules.meetingDuration,
+      preferences = {},
     } = params;
 
     // Validate required parameters
@@ -65,100 +114,81 @@ export class CalendarService {
       throw new Error('timeMin and timeMax are required parameters');
     }
 
-    try {
-      // Get busy times using freebusy API
-      // Ensure dates are properly formatted with timezone
-      const timeMinFormatted = new Date(timeMin).toISOString();
-      const timeMaxFormatted = new Date(timeMax).toISOString();
-      
-      const freeBusyResponse = await this.calendar.freebusy.query({
-        requestBody: {
-          timeMin: timeMinFormatted,
-          timeMax: timeMaxFormatted,
-          items: [{ id: 'primary' }],
-        },
-      });
+    // Clamp the requested window to [now + minimum notice, end of the lookahead horizon]
+    const now = new Date();
+    const earliestStart = new Date(now.getTime() + rules.minAdvanceNotice * 60 * 60 * 1000);
+    const horizonDay = addLocalDays(getZonedParts(now, this.timeZone), rules.maxLookaheadDays + 1);
+    const horizon = zonedTimeToUtc({ ...horizonDay, hour: 0, minute: 0 }, this.timeZone);
 
-      const busyTimes = freeBusyResponse.data.calendars?.['primary']?.busy || [];
+    const searchStart = new Date(Math.max(new Date(timeMin).getTime(), earliestStart.getTime()));
+    const searchEnd = new Date(Math.min(new Date(timeMax).getTime(), horizon.getTime()));
 
-      // Generate available slots
-      const availableSlots: TimeSlot[] = [];
-      const current = new Date(timeMin);
-      const end = new Date(timeMax);
-      const durationMs = duration * 60 * 1000;
+    if (isNaN(searchStart.getTime()) || isNaN(searchEnd.getTime())) {
+      throw new Error('timeMin and timeMax must be valid ISO dates');
+    }
 
-      while (current < end && availableSlots.length < maxResults) {
-        // Skip non-working days
-        if (!workingDays.includes(current.getDay())) {
-          current.setDate(current.getDate() + 1);
-          current.setHours(
-            parseInt(businessHoursStart.split(':')[0]),
-            parseInt(businessHoursStart.split(':')[1]),
-            0,
-            0
-          );
-          continue;
-        }
+    if (searchStart >= searchEnd) {
+      console.log('Calendar MCP: Requested window is outside the notice/lookahead limits, no slots');
+      return [];
+    }
 
-        // Set to business hours start
-        const dayStart = new Date(current);
-        dayStart.setHours(
-          parseInt(businessHoursStart.split(':')[0]),
-          parseInt(businessHoursStart.split(':')[1]),
-          0,
-          0
-        );
-
-        const dayEnd = new Date(current);
-        dayEnd.setHours(
-          parseInt(businessHoursEnd.split(':')[0]),
-          parseInt(businessHoursEnd.split(':')[1]),
-          0,
-          0
-        );
-
-        // Generate slots throughout the business day
-        const slotStart = new Date(dayStart);
-
-        while (slotStart < dayEnd && availableSlots.length < maxResults) {
-          const slotEnd = new Date(slotStart.getTime() + durationMs);
-
-          if (slotEnd > dayEnd) break;
-
-          const slot: TimeSlot = {
-            start: new Date(slotStart),
-            end: new Date(slotEnd),
-            timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-          };
-
-          // Check for conflicts with busy times
-          const hasConflict = busyTimes.some((busy: any) =>
-            slot.start < new Date(busy.end) && slot.end > new Date(busy.start)
-          );
-
-          if (!hasConflict) {
-            availableSlots.push(slot);
-          }
+    try {
+      const busyBlocks = await this.getPaddedBusyBlocks(searchStart, searchEnd);
 
-          // Move to next 30-minute slot
-          slotStart.setTime(slotStart.getTime() + 30 * 60 * 1000);
+      // Generate available slots, walking calendar days in the owner's timezone so working
+      // intervals and weekdays are local to them (DST-safe: each day is resolved on its own)
+      const candidates: TimeSlot[] = [];
+      const durationMs = duration * 60 * 1000;
+      const stepMs = rules.slotIncrement * 60 * 1000;
+      const firstDay = getZonedParts(searchStart, this.timeZone);
+
+      for (let dayOffset = 0; candidates.length < MAX_CANDIDATE_SLOTS; dayOffset++) {
+        const day = addLocalDays(firstDay, dayOffset);
+        const dayMidnight = zonedTimeToUtc({ ...day, hour: 0, minute: 0 }, this.timeZone);
+
+        if (dayMidnight >= searchEnd) break;
+
+        // Weekly hours for this weekday with dated overrides applied (empty = day off)
+        for (const interval of getWorkingIntervals(rules, day)) {
+          const intervalStart = zonedTimeToUtc({ ...day, ...parseTimeOfDay(interval.start) }, this.timeZone);
+          const intervalEnd = zonedTimeToUtc({ ...day, ...parseTimeOfDay(interval.end) }, this.timeZone);
+
+          for (
+            let slotStartMs = intervalStart.getTime();
+            slotStartMs + durationMs <= intervalEnd.getTime() && candidates.length < MAX_CANDIDATE_SLOTS;
+            slotStartMs += stepMs
+          ) {
+            const slotStart = new Date(slotStartMs);
+            const slotEnd = new Date(slotStartMs + durationMs);
+
+            if (slotStart < searchStart) continue;
+            if (slotEnd > searchEnd) break;
+
+            // Check for conflicts with busy times, including their buffers
+            const hasConflict = busyBlocks.some(busy =>
+              slotStart < busy.end && slotEnd > busy.start
+            );
+
+            if (!hasConflict) {
+              candidates.push({
+                start: slotStart,
+                end: slotEnd,
+                timezone: this.timeZone,
+                startLocal: formatInTimeZone(slotStart, this.timeZone),
+                endLocal: formatInTimeZone(slotEnd, this.timeZone),
+              });
+            }
+          }
         }
-
-        // Move to next day
-        current.setDate(current.getDate() + 1);
-        current.setHours(
-          parseInt(businessHoursStart.split(':')[0]),
-          parseInt(businessHoursStart.split(':')[1]),
-          0,
-          0
-        );
       }
 
-      console.log(`Calendar MCP: Found ${availableSlots.length} available slots`);
-      return availableSlots;
+      const selectedSlots = rankSlots(candidates, preferences, rules.slotSelection, this.timeZone);
+
+      console.log(`Calendar MCP: Selected ${selectedSlots.length} of ${candidates.length} available slots`);
+      return selectedSlots;
     } catch (error) {
       console.error('Calendar MCP: Failed to find available slots:', error);
-      console.error('Calendar MCP: Request parameters:', { timeMin, timeMax, duration, businessHoursStart, businessHoursEnd });
+      console.error('Calendar MCP: Request parameters:', { timeMin, timeMax, duration, searchStart, searchEnd });
       if (error instanceof Error) {
         throw new Error(`Failed to find available time slots: ${error.message}`);
       }
@@ -166,6 +196,62 @@ export class CalendarService {
     }
   }
 
+  /**
+   * Busy blocks in the window, widened by the buffer time on both sides.
+   * Events with a physical location get the (longer) travel buffer instead.
+   */
+  private async getPaddedBusyBlocks(searchStart: Date, searchEnd: Date): Promise<Array<{ start: Date; end: Date }>> {
+    const { bufferTime, travelBufferTime } = this.availability;
+    const maxBufferMs = Math.max(bufferTime, travelBufferTime) * 60 * 1000;
+    const windowStart = new Date(searchStart.getTime() - maxBufferMs).toISOString();
+    const windowEnd = new Date(searchEnd.getTime() + maxBufferMs).toISOString();
+
+    // Get busy times using freebusy API
+    const freeBusyResponse = await this.calendar.freebusy.query({
+      requestBody: {
+        timeMin: windowStart,
+        timeMax: windowEnd,
+        items: [{ id: 'primary' }],
+      },
+    });
+
+    const busyTimes = freeBusyResponse.data.calendars?.['primary']?.busy || [];
+    const pad = (start: Date, end: Date, minutes: number) => ({
+      start: new Date(start.getTime() - minutes * 60 * 1000),
+      end: new Date(end.getTime() + minutes * 60 * 1000),
+    });
+
+    const blocks = busyTimes.map((busy: any) => pad(new Date(busy.start), new Date(busy.end), bufferTime));
+
+    // Freebusy has no locations, so look up in-person events separately for the travel buffer
+    if (travelBufferTime > bufferTime) {
+      const eventsResponse = await this.calendar.events.list({
+        calendarId: 'primary',
+        timeMin: windowStart,
+        timeMax: windowEnd,
+        singleEvents: true,
+        orderBy: 'startTime',
+      });
+
+      for (const event of eventsResponse.data.items || []) {
+        if (event.status === 'cancelled' || event.transparency === 'transparent') continue;
+        if (!this.hasPhysicalLocation(event.location)) continue;
+        if (!event.start?.dateTime || !event.end?.dateTime) continue;
+
+        blocks.push(pad(new Date(event.start.dateTime), new Date(event.end.dateTime), travelBufferTime));
+      }
+    }
+
+    return blocks;
+  }
+
+  private hasPhysicalLocation(location?: string | null): boolean {
+    if (!location || !location.trim()) {
+      return false;
+    }
+    return !/https?:\/\/|zoom\.us|meet\.google|teams\.microsoft|webex/i.test(location);
+  }
+
   /**
    * MCP Tool: Get calendar events
    * This is designed to be called by AI via function calling
@@ -230,10 +316,9 @@ export class CalendarService {
       // Get the current authenticated user's email to add them as an attendee
       let currentUserEmail: string | undefined;
       try {
-        const authClient = authService.getAuthenticatedClient();
-        if (authClient && authClient.credentials) {
+        if (this.authClient && this.authClient.credentials) {
           // Get user info using the authenticated client
-          const oauth2 = google.oauth2({ version: 'v2', auth: authClient });
+          const oauth2 = google.oauth2({ version: 'v2', auth: this.authClient });
           const userInfoResponse = await oauth2.userinfo.get();
           currentUserEmail = userInfoResponse.data.email || undefined;
           console.log('Calendar MCP: Got current user email:', currentUserEmail);
@@ -247,11 +332,11 @@ export class CalendarService {
         description: description || `Meeting scheduled via AI assistant`,
         start: {
           dateTime: startDateTime,
-          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          timeZone: this.timeZone,
         },
         end: {
           dateTime: endDateTime,
-          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          timeZone: this.timeZone,
         },
         location,
         conferenceData: {
@@ -305,22 +390,92 @@ export class CalendarService {
     }
   }
 
+  /**
+   * Whether nothing on the owner's calendar overlaps the interval right now.
+   * Free (transparent), cancelled and declined events are ignored, as are the given event IDs
+   * (e.g. the owner's own holds on the slot being booked).
+   */
+  async isSlotFree(start: Date, end: Date, ignoreEventIds: string[] = []): Promise<boolean> {
+    await this.ensureAuthenticated();
+
+    const response = await this.calendar.events.list({
+      calendarId: 'primary',
+      timeMin: start.toISOString(),
+      timeMax: end.toISOString(),
+      singleEvents: true,
+      maxResults: 50,
+    });
+
+    const blocking = (response.data.items || []).filter((event: any) =>
+      event.status !== 'cancelled' &&
+      event.transparency !== 'transparent' &&
+      !ignoreEventIds.includes(event.id) &&
+      !(event.attendees || []).some((attendee: any) => attendee.self && attendee.responseStatus === 'declined')
+    );
+
+    return blocking.length === 0;
+  }
+
+  /**
+   * Create a tentative, attendee-less event that keeps a proposed slot busy on the owner's calendar.
+   * Not exposed as an MCP tool.
+   */
+  async createHoldEvent(params: { summary: string; description?: string; startDateTime: string; endDateTime: string }): Promise<CalendarEvent> {
+    await this.ensureAuthenticated();
+
+    try {
+      const response = await this.calendar.events.insert({
+        calendarId: 'primary',
+        sendUpdates: 'none',
+        requestBody: {
+          summary: params.summary,
+          description: params.description,
+          start: { dateTime: params.startDateTime, timeZone: this.timeZone },
+          end: { dateTime: params.endDateTime, timeZone: this.timeZone },
+          status: 'tentative',
+          transparency: 'opaque', // counts as busy in free/busy queries
+          reminders: { useDefault: false },
+          extendedProperties: { private: { assistantHold: 'true' } },
+        },
+      });
+
+      console.log('Calendar MCP: Hold created:', response.data.id);
+      return CalendarEventModel.fromGoogleCalendarEvent(response.data);
+    } catch (error) {
+      console.error('Calendar MCP: Failed to create hold:', error);
+      throw new Error('Failed to create calendar hold');
+    }
+  }
+
+  /**
+   * Delete an event; events already gone from the calendar count as deleted
+   */
+  async deleteEvent(eventId: string, calendarId: string = 'primary'): Promise<void> {
+    await this.ensureAuthenticated();
+
+    try {
+      await this.calendar.events.delete({ calendarId, eventId, sendUpdates: 'none' });
+    } catch (error: any) {
+      const status = error?.code || error?.response?.status;
+      if (status === 404 || status === 410) {
+        return;
+      }
+      console.error('Calendar MCP: Failed to delete event:', error);
+      throw new Error('Failed to delete calendar event');
+    }
+  }
+
   // Legacy methods for backward compatibility with existing code
   async findAvailableSlots(
     duration: number,
     timeMin: Date,
     timeMax: Date,
-    calendarIds: string[] = ['primary'],
-    businessHours: { start: string; end: string } = { start: '09:00', end: '17:00' },
-    workingDays: number[] = [1, 2, 3, 4, 5]
+    calendarIds: string[] = ['primary']
   ): Promise<TimeSlot[]> {
     return this.find_available_slots({
       timeMin: timeMin.toISOString(),
       timeMax: timeMax.toISOString(),
       duration,
-      businessHoursStart: businessHours.start,
-      businessHoursEnd: businessHours.end,
-      workingDays,
     });
   }
 
@@ -377,7 +532,7 @@ export class CalendarService {
         type: 'function',
         function: {
           name: 'find_available_slots',
-          description: 'Find available time slots for scheduling meetings',
+          description: `Find available time slots for scheduling meetings. The calendar owner's weekly working hours, date exceptions, buffers, minimum notice and lookahead are applied automatically in their timezone (${this.timeZone}); each slot includes startLocal/endLocal with an explicit UTC offset. Returns the ${this.availability.slotSelection.slotCount} slots to propose, already spread across days and ranked by the prospect's preferences.`,
           parameters: {
             type: 'object',
             properties: {
@@ -392,28 +547,36 @@ export class CalendarService {
               duration: {
                 type: 'number',
                 description: 'Meeting duration in minutes',
-                default: 30,
-              },
-              businessHoursStart: {
-                type: 'string',
-                description: 'Business hours start (HH:MM format)',
-                default: '09:00',
+                default: this.availability.meetingDuration,
               },
-              businessHoursEnd: {
-                type: 'string',
-                description: 'Business hours end (HH:MM format)',
-                default: '17:00',
-              },
-              workingDays: {
-                type: 'array',
-                items: { type: 'number' },
-                description: 'Working days (0=Sunday, 1=Monday, etc.)',
-                default: [1, 2, 3, 4, 5],
-              },
-              maxResults: {
-                type: 'number',
-                description: 'Maximum number of slots to return',
-                default: 5,
+              preferences: {
+                type: 'object',
+                description: 'Scheduling preferences stated in the email, if any',
+                properties: {
+                  preferredDays: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    description: 'Weekday names, e.g. ["Tuesday", "Thursday"]',
+                  },
+                  preferredTimes: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    description: 'Times of day, e.g. ["10:00", "2pm"]',
+                  },
+                  timeRange: {
+                    type: 'string',
+                    enum: ['morning', 'afternoon', 'evening', 'flexible'],
+                  },
+                  specificDates: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    description: 'Dates in YYYY-MM-DD format',
+                  },
+                  timezone: {
+                    type: 'string',
+                    description: "The prospect's IANA timezone if stated or evident, e.g. America/New_York",
+                  },
+                },
               },
             },
             required: ['timeMin', 'timeMax'],
@@ -468,11 +631,11 @@ export class CalendarService {
               },
               startDateTime: {
                 type: 'string',
-                description: 'Event start time (ISO format)',
+                description: `Event start time (ISO format with offset; times without an offset are read as ${this.timeZone})`,
               },
               endDateTime: {
                 type: 'string',
-                description: 'Event end time (ISO format)',
+                description: `Event end time (ISO format with offset; times without an offset are read as ${this.timeZone})`,
               },
               attendeeEmail: {
                 type: 'string',
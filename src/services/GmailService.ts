@@ -1,35 +1,25 @@
 import { EmailMessageModel } from '@/models/EmailMessage';
-import { EmailMessage, GmailQuery, EmailSendOptions, GmailMessageListResponse } from '@/types';
+import { EmailMessage, EmailMessageBatch, GmailQuery, EmailSendOptions, GmailMessageListResponse, GmailHistoryListResponse, GmailWatchResponse } from '@/types';
 import { google } from 'googleapis';
 import { authService } from './AuthService';
 import { userConfigService } from './UserConfigService';
 
 export class GmailService {
   private gmail: any;
-  private userSpecificAuth: any = null;
-
-  constructor() {
-    this.gmail = null;
-  }
-
-  setUserTokens(accessToken: string, refreshToken: string): void {
-    const { OAuth2 } = google.auth;
-    this.userSpecificAuth = new OAuth2(
-      process.env.GOOGLE_CLIENT_ID,
-      process.env.GOOGLE_CLIENT_SECRET,
-      process.env.GOOGLE_REDIRECT_URI
-    );
-    
-    this.userSpecificAuth.setCredentials({
-      access_token: accessToken,
-      refresh_token: refreshToken,
-    });
-    
-    this.gmail = google.gmail({ version: 'v1', auth: this.userSpecificAuth });
+  private readonly userScoped: boolean;
+
+  /**
+   * @param authClient OAuth client for a specific user (see GoogleClientFactory).
+   * When omitted, the legacy single-user authService credentials are used.
+   */
+  constructor(authClient?: any) {
+    this.userScoped = !!authClient;
+    this.gmail = authClient ? google.gmail({ version: 'v1', auth: authClient }) : null;
   }
 
   private async ensureAuthenticated(): Promise<void> {
-    if (this.userSpecificAuth && this.gmail) {
+    // User-scoped clients refresh their own tokens
+    if (this.userScoped) {
       return;
     }
     
@@ -121,6 +111,131 @@ export class GmailService {
     }
   }
 
+  /**
+   * List IDs of messages added to the mailbox since startHistoryId.
+   * Returns null when Gmail no longer has history for that ID (a full resync is required).
+   */
+  async listHistory(startHistoryId: string): Promise<GmailHistoryListResponse | null> {
+    await this.ensureAuthenticated();
+
+    const messageIds = new Set<string>();
+    let historyId = startHistoryId;
+    let pageToken: string | undefined;
+
+    try {
+      do {
+        const response = await this.gmail.users.history.list({
+          userId: 'me',
+          startHistoryId,
+          historyTypes: ['messageAdded'],
+          pageToken
+        });
+
+        for (const record of response.data.history || []) {
+          for (const added of record.messagesAdded || []) {
+            const labelIds: string[] = added.message?.labelIds || [];
+            if (added.message?.id && !labelIds.includes('DRAFT')) {
+              messageIds.add(added.message.id);
+            }
+          }
+        }
+
+        historyId = response.data.historyId || historyId;
+        pageToken = response.data.nextPageToken || undefined;
+      } while (pageToken);
+
+      return {
+        messageIds: Array.from(messageIds),
+        historyId
+      };
+    } catch (error: any) {
+      if (this.isNotFound(error)) {
+        console.warn(`Gmail: History ID ${startHistoryId} has expired`);
+        return null;
+      }
+      console.error('Gmail: Failed to list history:', error);
+      throw new Error('Failed to retrieve Gmail history');
+    }
+  }
+
+  /**
+   * List every message ID matching a query, following pagination
+   */
+  async listAllMessageIds(query: string, pageSize: number = 100): Promise<string[]> {
+    const messageIds: string[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const page = await this.listMessages({ query, maxResults: pageSize, pageToken });
+      messageIds.push(...page.messages.map(msg => msg.id));
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+
+    return messageIds;
+  }
+
+  /**
+   * Fetch each message on its own so one failure doesn't lose the rest. Messages deleted since
+   * they were listed (404) are skipped; the IDs of any other failures are returned.
+   */
+  async getEmailsByIds(messageIds: string[]): Promise<EmailMessageBatch> {
+    const batch: EmailMessageBatch = { emails: [], failedIds: [] };
+    if (messageIds.length === 0) {
+      return batch;
+    }
+
+    await this.ensureAuthenticated();
+
+    const results = await Promise.allSettled(messageIds.map(async id => {
+      const response = await this.gmail.users.messages.get({ userId: 'me', id, format: 'full' });
+      return EmailMessageModel.fromGmailMessage(response.data);
+    }));
+
+    results.forEach((result, i) => {
+      if (result.status === 'fulfilled') {
+        batch.emails.push(result.value);
+      } else if (this.isNotFound(result.reason)) {
+        console.warn(`Gmail: Message ${messageIds[i]} no longer exists, skipping`);
+      } else {
+        console.error(`Gmail: Failed to get message ${messageIds[i]}:`, result.reason);
+        batch.failedIds.push(messageIds[i]);
+      }
+    });
+
+    return batch;
+  }
+
+  private isNotFound(error: any): boolean {
+    return error?.code === 404 || error?.response?.status === 404;
+  }
+
+  /**
+   * Ask Gmail to publish mailbox changes to a Pub/Sub topic.
+   * The watch expires after ~7 days and must be renewed.
+   */
+  async watchMailbox(topicName: string, labelIds: string[] = ['INBOX']): Promise<GmailWatchResponse> {
+    await this.ensureAuthenticated();
+
+    try {
+      const response = await this.gmail.users.watch({
+        userId: 'me',
+        requestBody: {
+          topicName,
+          labelIds,
+          labelFilterAction: 'include'
+        }
+      });
+
+      return {
+        historyId: String(response.data.historyId),
+        expiration: new Date(parseInt(response.data.expiration))
+      };
+    } catch (error) {
+      console.error('Gmail: Failed to watch mailbox:', error);
+      throw new Error('Failed to register Gmail push notifications');
+    }
+  }
+
   async searchEmails(searchQuery: string, maxResults: number = 50): Promise<EmailMessage[]> {
     try {
       const listResult = await this.listMessages({
@@ -0,0 +1,78 @@
+import { userRepository } from '@/database/repositories';
+import { UserWithTokens } from '@/database/repositories/UserRepository';
+import { config } from '@/utils/config';
+import { google } from 'googleapis';
+import { CalendarService } from './CalendarMCP';
+import { GmailService } from './GmailService';
+import { userConfigService } from './UserConfigService';
+
+export type GoogleOAuthClient = InstanceType<typeof google.auth.OAuth2>;
+
+export interface UserGoogleClients {
+  userId: string;
+  auth: GoogleOAuthClient;
+  gmail: GmailService;
+  calendar: CalendarService;
+}
+
+/**
+ * Builds Google API clients bound to a single user's OAuth tokens.
+ * Each call returns fresh instances, so concurrent users never share credentials.
+ */
+export class GoogleClientFactory {
+
+  createOAuthClient(user: UserWithTokens): GoogleOAuthClient {
+    if (!user.googleTokens?.accessToken) {
+      throw new Error(`User ${user.id} has no Google tokens`);
+    }
+
+    const authClient = new google.auth.OAuth2(
+      config.google.clientId,
+      config.google.clientSecret,
+      config.google.redirectUri
+    );
+
+    authClient.setCredentials({
+      access_token: user.googleTokens.accessToken,
+      refresh_token: user.googleTokens.refreshToken || undefined,
+      token_type: user.googleTokens.tokenType,
+      scope: user.googleTokens.scope || undefined,
+      expiry_date: user.googleTokens.expiresAt?.getTime()
+    });
+
+    // Persist refreshed tokens so the next client starts from valid credentials
+    authClient.on('tokens', (tokens) => {
+      if (!tokens.access_token) {
+        return;
+      }
+
+      userRepository.upsertGoogleTokens(user.id, {
+        accessToken: tokens.access_token,
+        refreshToken: tokens.refresh_token || undefined,
+        scope: tokens.scope || undefined,
+        expiresAt: tokens.expiry_date ? new Date(tokens.expiry_date) : undefined
+      }).then(() => {
+        console.log(`Google Clients: Persisted refreshed tokens for user ${user.email}`);
+      }).catch((error) => {
+        console.error(`Google Clients: Failed to persist refreshed tokens for user ${user.email}:`, error);
+      });
+    });
+
+    return authClient;
+  }
+
+  async forUser(user: UserWithTokens): Promise<UserGoogleClients> {
+    const auth = this.createOAuthClient(user);
+    const availability = await userConfigService.loadAvailabilityRules(user);
+
+    return {
+      userId: user.id,
+      auth,
+      gmail: new GmailService(auth),
+      calendar: new CalendarService(auth, availability)
+    };
+  }
+}
+
+// Export singleton instance
+export const googleClientFactory = new GoogleClientFactory();
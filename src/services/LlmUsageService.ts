@@ -0,0 +1,155 @@
+import { llmUsageRepository } from '@/database/repositories';
+import { LlmTokenTotals } from '@/database/repositories/LlmUsageRepository';
+import { LLMUsage, LLMUsagePurpose } from '@/types';
+import { config } from '@/utils/config';
+import { User } from '@prisma/client';
+
+export interface LlmUsageCost {
+  inputTokens: number;
+  outputTokens: number;
+  completions: number;
+  costUsd: number;
+}
+
+export interface DailyLlmUsage extends LlmUsageCost {
+  date: string; // YYYY-MM-DD (UTC)
+  models: Array<LlmUsageCost & { model: string }>;
+}
+
+export interface LlmUsageReport {
+  days: DailyLlmUsage[];
+  totals: LlmUsageCost;
+  unpricedModels: string[]; // used models missing from the price table, counted at $0
+}
+
+export interface AiBudgetStatus {
+  budgetUsd: number | null; // null = unlimited
+  spentUsd: number;
+  remainingUsd: number | null;
+  exceeded: boolean;
+  periodStart: Date; // first day of the current UTC month
+}
+
+/**
+ * Token usage of every completion, priced with the LLM_PRICING table, and the
+ * per-user monthly AI budgets checked before emails are sent to the model
+ */
+export class LlmUsageService {
+
+  /**
+   * Store a completion's token usage; never fails the AI call it belongs to
+   */
+  async record(
+    userId: string | null,
+    provider: string,
+    model: string,
+    purpose: LLMUsagePurpose,
+    usage?: LLMUsage
+  ): Promise<void> {
+    try {
+      await llmUsageRepository.record({
+        userId,
+        provider,
+        model,
+        purpose,
+        inputTokens: usage?.inputTokens || 0,
+        outputTokens: usage?.outputTokens || 0
+      });
+    } catch (error) {
+      console.error('💰 Failed to record LLM usage:', error);
+    }
+  }
+
+  /**
+   * Price by exact model name, else by the longest matching prefix (e.g. gpt-4o-2024-08-06 -> gpt-4o)
+   */
+  priceFor(model: string): { input: number; output: number } | undefined {
+    const { pricing } = config.llm;
+    if (pricing[model]) {
+      return pricing[model];
+    }
+
+    const prefix = Object.keys(pricing)
+      .filter(key => model.startsWith(key))
+      .sort((a, b) => b.length - a.length)[0];
+    return prefix ? pricing[prefix] : undefined;
+  }
+
+  costUsd(model: string, inputTokens: number, outputTokens: number): number {
+    const price = this.priceFor(model);
+    if (!price) {
+      return 0;
+    }
+    return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+  }
+
+  /**
+   * Daily tokens and cost for the last `days` days, per model
+   */
+  async getUsageReport(userId: string, days: number = 30): Promise<LlmUsageReport> {
+    const since = new Date();
+    since.setUTCDate(since.getUTCDate() - days);
+    since.setUTCHours(0, 0, 0, 0);
+
+    const rows = await llmUsageRepository.sumByDayAndModel(userId, since);
+    const byDate = new Map<string, DailyLlmUsage>();
+    const unpriced = new Set<string>();
+
+    for (const row of rows) {
+      const date = row.day.toISOString().split('T')[0];
+      const model = { ...this.withCost(row), model: row.model };
+      if (!this.priceFor(row.model)) {
+        unpriced.add(row.model);
+      }
+
+      const day = byDate.get(date) || { date, inputTokens: 0, outputTokens: 0, completions: 0, costUsd: 0, models: [] };
+      this.addTo(day, model);
+      day.models.push(model);
+      byDate.set(date, day);
+    }
+
+    const daily = Array.from(byDate.values());
+    const totals = { inputTokens: 0, outputTokens: 0, completions: 0, costUsd: 0 };
+    daily.forEach(day => this.addTo(totals, day));
+
+    return { days: daily, totals, unpricedModels: Array.from(unpriced) };
+  }
+
+  /**
+   * Spend so far this month against the user's budget (or AI_MONTHLY_BUDGET_USD)
+   */
+  async getBudgetStatus(user: Pick<User, 'id' | 'monthlyAiBudgetUsd'>): Promise<AiBudgetStatus> {
+    const now = new Date();
+    const periodStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const budgetUsd = user.monthlyAiBudgetUsd ?? config.llm.monthlyBudgetUsd ?? null;
+
+    const totals = await llmUsageRepository.sumByModel(user.id, periodStart);
+    const spentUsd = totals.reduce((sum, row) => sum + this.withCost(row).costUsd, 0);
+
+    return {
+      budgetUsd,
+      spentUsd,
+      remainingUsd: budgetUsd === null ? null : Math.max(0, budgetUsd - spentUsd),
+      exceeded: budgetUsd !== null && spentUsd >= budgetUsd,
+      periodStart
+    };
+  }
+
+  private withCost(totals: LlmTokenTotals): LlmUsageCost {
+    return {
+      inputTokens: totals.inputTokens,
+      outputTokens: totals.outputTokens,
+      completions: totals.completions,
+      costUsd: this.costUsd(totals.model, totals.inputTokens, totals.outputTokens)
+    };
+  }
+
+  private addTo(target: LlmUsageCost, usage: LlmUsageCost): void {
+    target.inputTokens += usage.inputTokens;
+    target.outputTokens += usage.outputTokens;
+    target.completions += usage.completions;
+    target.costUsd += usage.costUsd;
+  }
+}
+
+export const llmUsageService = new LlmUsageService();
@@ -0,0 +1,110 @@
+import { piiRedactionRepository } from '@/database/repositories';
+import { LLMUsagePurpose, PiiCategory, PiiRedactionCounts } from '@/types';
+import { DEFAULT_PII_REDACTION, PII_CATEGORIES, PiiRedactor } from '@/utils/piiRedaction';
+import { UserConfig } from './UserConfigService';
+
+export interface RedactedEmail<T> {
+  email: T;
+  redactor: PiiRedactor;
+}
+
+export interface PiiRedactionReport {
+  emails: number; // emails with at least one redaction
+  total: number;
+  counts: PiiRedactionCounts;
+}
+
+/**
+ * Redaction of personal data from emails before they reach the AI, with the user's
+ * category policy, and the compliance log of how much was redacted
+ */
+export class PiiRedactionService {
+
+  categoriesFor(userConfig?: UserConfig): PiiCategory[] {
+    return userConfig ? userConfig.piiRedactionCategories : DEFAULT_PII_REDACTION;
+  }
+
+  /**
+   * Copy of the email with the sender, subject and body redacted. Keep the redactor to
+   * restore the placeholders in what the model generates.
+   */
+  redactEmail<T extends { from: string; subject: string; body: string }>(
+    email: T,
+    categories: PiiCategory[]
+  ): RedactedEmail<T> {
+    const redactor = new PiiRedactor(categories);
+    return {
+      email: {
+        ...email,
+        from: redactor.redact(email.from),
+        subject: redactor.redact(email.subject),
+        body: redactor.redact(email.body)
+      },
+      redactor
+    };
+  }
+
+  /**
+   * Text redacted for good, e.g. earlier replies used as prompt examples. The placeholders
+   * carry no number ("[PHONE]"), so they are never restored into a reply to someone else.
+   */
+  scrub(text: string, categories: PiiCategory[]): string {
+    return new PiiRedactor(categories).redact(text).replace(/\[([A-Z]+)_\d+\]/g, '[$1]');
+  }
+
+  /**
+   * Log the redaction counts of an email; never fails the AI call it belongs to
+   */
+  async record(
+    userId: string | null,
+    purpose: LLMUsagePurpose,
+    messageId: string | null,
+    redactor: PiiRedactor
+  ): Promise<void> {
+    if (redactor.total === 0) {
+      return;
+    }
+
+    const summary = Object.entries(redactor.counts).map(([category, count]) => `${category}: ${count}`).join(', ');
+    console.log(`🔒 Redacted ${redactor.total} PII item(s) for ${purpose}${messageId ? ` of ${messageId}` : ''} (${summary})`);
+
+    try {
+      await piiRedactionRepository.record({
+        userId,
+        purpose,
+        messageId,
+        counts: redactor.counts,
+        total: redactor.total
+      });
+    } catch (error) {
+      console.error('🔒 Failed to record PII redaction:', error);
+    }
+  }
+
+  /**
+   * Redactions per category over the last `days` days
+   */
+  async getReport(userId: string, days: number = 30): Promise<PiiRedactionReport> {
+    const since = new Date();
+    since.setUTCDate(since.getUTCDate() - days);
+    since.setUTCHours(0, 0, 0, 0);
+
+    const logs = await piiRedactionRepository.findByUserSince(userId, since);
+    const counts: PiiRedactionCounts = {};
+    for (const log of logs) {
+      for (const [category, count] of Object.entries(log.counts as PiiRedactionCounts)) {
+        if (PII_CATEGORIES.includes(category as PiiCategory)) {
+          counts[category as PiiCategory] = (counts[category as PiiCategory] || 0) + (count || 0);
+        }
+      }
+    }
+
+    return {
+      emails: new Set(logs.map(log => log.messageId ?? log.id)).size,
+      total: logs.reduce((sum, log) => sum + log.total, 0),
+      counts
+    };
+  }
+}
+
+export const piiRedactionService = new PiiRedactionService();
@@ -0,0 +1,313 @@
+import { promptTemplateRepository, userRepository } from '@/database/repositories';
+import { ScheduledResponseRepository } from '@/database/repositories/ScheduledResponseRepository';
+import { fenceUntrusted, sanitizeHeader } from '@/utils/promptSafety';
+import { formatSlotForRecipient, slotToken } from '@/utils/slotFormatting';
+import { resolveTimeZone } from '@/utils/timezone';
+import { EmailRecord, PromptTemplate } from '@prisma/client';
+import { piiRedactionService } from './PiiRedactionService';
+import { UserConfig, userConfigService } from './UserConfigService';
+
+const scheduledResponseRepository = new ScheduledResponseRepository();
+
+export type PromptTemplateName = 'email_analysis' | 'reply_analysis' | 'alternative_slots_reply';
+
+export type PromptVariables = Record<string, string>;
+
+export interface PromptTemplateDefinition {
+  name: PromptTemplateName;
+  description: string;
+  variables: string[];
+  requiredVariables: string[];
+  body: string; // built-in version, used until the user activates one of their own
+}
+
+// Template in effect for a flow; id is null and version 0 for the built-in template
+export interface ActivePromptTemplate {
+  id: string | null;
+  name: PromptTemplateName;
+  version: number;
+  body: string;
+}
+
+const EMAIL_VARIABLES = [
+  'emailFrom', 'emailSubject', 'emailBody', 'contactName', 'contactEmail',
+  'currentDate', 'salesName', 'companyName', 'signature'
+];
+
+export const PROMPT_TEMPLATES: Record<PromptTemplateName, PromptTemplateDefinition> = {
+  email_analysis: {
+    name: 'email_analysis',
+    description: 'Classifies an inbound email by intent, finds slots with the calendar tools and writes the reply',
+    variables: [...EMAIL_VARIABLES, 'availability'],
+    requiredVariables: ['emailBody'],
+    body: `
+You are an AI sales assistant that triages a sales inbox and schedules product demos. Analyze this email and use calendar tools to find available time slots if the sender wants a new or moved meeting.
+
+Email Details:
+Subject: {{emailSubject}}
+From: {{emailFrom}}
+Body: {{emailBody}}
+
+Current date: {{currentDate}}
+
+Your tasks:
+1. Classify the intent (confidence 0.0-1.0) and urgency:
+   - demo_request: wants a demo, call or meeting
+   - reschedule: wants to move a meeting that is already booked
+   - cancellation: wants to cancel a meeting that is already booked
+   - pricing: asks for pricing, a quote or plans
+   - partnership: partnership, reseller or integration proposal
+   - support: existing customer with a product question or problem
+   - other: anything else
+2. Extract contact information (name, email, company)
+3. If it's a demo_request or reschedule, use find_available_slots to get the time slots to propose
+4. For a demo_request or reschedule, generate a professional email response offering those times; leave it empty for every other intent
+
+Steps:
+- Only call calendar functions for a demo_request or reschedule with confidence > 0.7
+- Pass any time preferences stated in the email (specific days or dates, morning/afternoon, preferred times, the sender's timezone) as the preferences argument of find_available_slots
+- find_available_slots applies the user's working hours, buffers, minimum notice and lookahead, and chooses which slots to propose; offer exactly the slots it returns, in order, without adding, dropping or moving any
+- Omit duration: the user's meeting length is always used
+- You may call tools over several rounds, e.g. check get_calendar_events after finding slots, or call find_available_slots again with corrected arguments if it returned an error
+`.trim()
+  },
+  reply_analysis: {
+    name: 'reply_analysis',
+    description: 'Decides whether a reply to a sent proposal accepts one of the proposed slots',
+    variables: [...EMAIL_VARIABLES, 'slots'],
+    requiredVariables: ['emailBody', 'slots'],
+    body: `
+You are analyzing a reply to a scheduled response that proposed meeting time slots.
+Determine if this reply accepts one of the proposed time slots and if a calendar event should be created.
+
+ORIGINAL PROPOSED TIME SLOTS:
+{{slots}}
+
+REPLY EMAIL:
+From: {{emailFrom}}
+Subject: {{emailSubject}}
+Body: {{emailBody}}
+
+Please analyze if:
+1. The reply explicitly or implicitly accepts one of the proposed time slots
+2. Which specific time slot is being accepted (if any)
+3. Whether a calendar event should be created
+`.trim()
+  },
+  alternative_slots_reply: {
+    name: 'alternative_slots_reply',
+    description: 'Follow-up offering new slots when the accepted slot was booked in the meantime',
+    variables: [...EMAIL_VARIABLES, 'slots', 'requestedSlot'],
+    requiredVariables: ['slots'],
+    body: `
+A prospect replied accepting a proposed meeting time, but that time has just been booked by someone else.
+Write a short, friendly reply that apologises, explains the time is no longer available and offers the alternatives below.
+
+REQUESTED TIME (no longer available):
+{{requestedSlot}}
+
+ALTERNATIVE TIMES (offer exactly these, in this order):
+{{slots}}
+
+THEIR REPLY:
+From: {{emailFrom}}
+Subject: {{emailSubject}}
+Body: {{emailBody}}
+`.trim()
+  }
+};
+
+export const PROMPT_TEMPLATE_NAMES = Object.keys(PROMPT_TEMPLATES) as PromptTemplateName[];
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Prompt text for the AI flows. Each flow has a built-in template; users can save their
+ * own versions of it ({{variable}} placeholders), and the active one is used instead.
+ * Old versions are kept so a change can be rolled back.
+ */
+export class PromptTemplateService {
+
+  getBuiltIn(name: PromptTemplateName): ActivePromptTemplate {
+    return { id: null, name, version: 0, body: PROMPT_TEMPLATES[name].body };
+  }
+
+  async getActive(userId: string, name: PromptTemplateName): Promise<ActivePromptTemplate> {
+    const active = await promptTemplateRepository.findActive(userId, name);
+    return active ? this.toActive(active) : this.getBuiltIn(name);
+  }
+
+  /**
+   * Version 0 is the built-in template
+   */
+  async getVersion(userId: string, name: PromptTemplateName, version: number): Promise<ActivePromptTemplate | null> {
+    if (version === 0) {
+      return this.getBuiltIn(name);
+    }
+    const template = await promptTemplateRepository.findVersion(userId, name, version);
+    return template ? this.toActive(template) : null;
+  }
+
+  /**
+   * Problems that would make the template unusable: unknown or missing variables
+   */
+  validate(name: PromptTemplateName, body: string): string[] {
+    const definition = PROMPT_TEMPLATES[name];
+    const used = new Set(Array.from(body.matchAll(VARIABLE_PATTERN), match => match[1]));
+    const errors: string[] = [];
+
+    for (const variable of used) {
+      if (!definition.variables.includes(variable)) {
+        errors.push(`Unknown variable {{${variable}}}; available: ${definition.variables.join(', ')}`);
+      }
+    }
+    for (const variable of definition.requiredVariables) {
+      if (!used.has(variable)) {
+        errors.push(`Template must include {{${variable}}}`);
+      }
+    }
+
+    return errors;
+  }
+
+  render(template: Pick<ActivePromptTemplate, 'body'>, variables: PromptVariables): string {
+    return template.body.replace(VARIABLE_PATTERN, (match, key: string) => variables[key] ?? match);
+  }
+
+  /**
+   * Variables shared by all templates, from the email and the mailbox owner's config
+   */
+  emailVariables(email: { from: string; subject: string; body: string }, userConfig?: UserConfig): PromptVariables {
+    const address = email.from.match(/<([^>]+)>/)?.[1] || email.from;
+    const name = email.from.includes('<') ? email.from.split('<')[0].trim().replace(/^"|"$/g, '') : '';
+
+    // Everything the sender wrote is fenced or flattened so it can't pose as instructions
+    return {
+      emailFrom: sanitizeHeader(email.from),
+      emailSubject: sanitizeHeader(email.subject),
+      emailBody: fenceUntrusted(email.body),
+      contactName: sanitizeHeader(name || address),
+      contactEmail: sanitizeHeader(address),
+      currentDate: new Date().toISOString().split('T')[0],
+      salesName: userConfig?.salesName || '',
+      companyName: userConfig?.companyName || '',
+      signature: userConfig ? userConfigService.generateEmailSignature(userConfig) : ''
+    };
+  }
+
+  /**
+   * Numbered slot list for {{slots}}; exact times are included where the model has to quote them
+   * back, tokens where it writes a reply offering the slots
+   */
+  formatSlotList(
+    slots: Array<{ start: string | Date; end: string | Date; formatted: string }>,
+    options: { includeTimes?: boolean; withTokens?: boolean; emptyText?: string } = {}
+  ): string {
+    if (slots.length === 0) {
+      return options.emptyText || 'None';
+    }
+
+    const toIso = (value: string | Date) => value instanceof Date ? value.toISOString() : value;
+    return slots
+      .map((slot, i) => {
+        if (options.includeTimes) {
+          return `${i + 1}. ${slot.formatted} (${toIso(slot.start)} to ${toIso(slot.end)})`;
+        }
+        return options.withTokens ? `${i + 1}. ${slotToken(i)}: ${slot.formatted}` : `${i + 1}. ${slot.formatted}`;
+      })
+      .join('\n');
+  }
+
+  /**
+   * Save a new version; by default it becomes the active one
+   */
+  async createVersion(
+    userId: string,
+    name: PromptTemplateName,
+    body: string,
+    options: { activate?: boolean; note?: string } = {}
+  ): Promise<PromptTemplate> {
+    const errors = this.validate(name, body);
+    if (errors.length > 0) {
+      throw new Error(`Invalid ${name} template: ${errors.join('; ')}`);
+    }
+
+    return promptTemplateRepository.createVersion({
+      userId,
+      name,
+      body,
+      note: options.note,
+      activate: options.activate ?? true
+    });
+  }
+
+  /**
+   * Make a stored version active, or go back to the built-in template with version 0
+   */
+  async activateVersion(userId: string, name: PromptTemplateName, version: number): Promise<ActivePromptTemplate | null> {
+    if (version === 0) {
+      await promptTemplateRepository.deactivateAll(userId, name);
+      return this.getBuiltIn(name);
+    }
+
+    const template = await promptTemplateRepository.activateVersion(userId, name, version);
+    return template ? this.toActive(template) : null;
+  }
+
+  /**
+   * Render a template against a stored email without calling the model or sending anything.
+   * {{slots}} are the slots proposed in the response generated for that email, if any.
+   * The email is PII-redacted with the owner's policy, as it would be for the model.
+   */
+  async previewForEmail(
+    emailRecord: EmailRecord,
+    name: PromptTemplateName,
+    template: Pick<ActivePromptTemplate, 'body'>
+  ): Promise<{ prompt: string; variables: PromptVariables }> {
+    const user = await userRepository.findById(emailRecord.userId);
+    if (!user) {
+      throw new Error(`User not found: ${emailRecord.userId}`);
+    }
+
+    const [userConfig, rules, response] = await Promise.all([
+      userConfigService.getConfigForUser(user),
+      userConfigService.loadAvailabilityRules(user),
+      scheduledResponseRepository.findByEmailRecordId(emailRecord.id)
+    ]);
+
+    const slots = (response?.proposedTimeSlots as Array<{ start: string; end: string; formatted: string }> | undefined) || [];
+    const timeZone = resolveTimeZone(user.timezone, rules.timezone);
+
+    const variables: PromptVariables = {
+      ...this.emailVariables(piiRedactionService.redactEmail(emailRecord, userConfig.piiRedactionCategories).email, userConfig),
+      availability: userConfigService.describeAvailability(rules),
+      slots: this.formatSlotList(slots, {
+        includeTimes: name === 'reply_analysis',
+        withTokens: name === 'alternative_slots_reply'
+      }),
+      requestedSlot: emailRecord.acceptedSlotStart
+        ? formatSlotForRecipient(emailRecord.acceptedSlotStart, {
+          recipientTimeZone: response?.prospectTimeZone || timeZone,
+          repTimeZone: timeZone,
+          locale: userConfig.locale
+        })
+        : ''
+    };
+
+    const allowed = new Set(PROMPT_TEMPLATES[name].variables);
+    const scoped = Object.fromEntries(Object.entries(variables).filter(([key]) => allowed.has(key)));
+
+    return { prompt: this.render(template, scoped), variables: scoped };
+  }
+
+  private toActive(template: PromptTemplate): ActivePromptTemplate {
+    return {
+      id: template.id,
+      name: template.name as PromptTemplateName,
+      version: template.version,
+      body: template.body
+    };
+  }
+}
+
+export const promptTemplateService = new PromptTemplateService();
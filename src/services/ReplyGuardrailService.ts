@@ -0,0 +1,281 @@
+import { ReplyValidationIssue, ReplyValidationReport } from '@/types';
+import { findSlotTokens, unknownSlotTokens } from '@/utils/slotFormatting';
+import { getZonedParts } from '@/utils/timezone';
+
+type SlotInput = { start: Date | string; end: Date | string; formatted?: string };
+
+export interface ReplyValidationOptions {
+  slots: SlotInput[]; // proposed slots; each must be mentioned in the reply
+  mentionable?: SlotInput[]; // other slots the reply may mention, e.g. the one that was just booked
+  timeZone: string; // rep's zone, the one the reply's times are read in
+  bannedPhrases: string[];
+  signature?: string; // signature appended to the body; its lines aren't checked
+}
+
+// A date, weekday or time found in one line of the reply
+interface DateMention { index: number; year?: number; month: number; day: number }
+interface WeekdayMention { index: number; weekday: number }
+interface TimeMention { index: number; text: string; minutes: number[]; otherZone: boolean }
+
+interface LocalSlot { date: string; weekday: number; startMinutes: number; endMinutes: number }
+
+const MONTH_NAME = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const MONTH_DAY = new RegExp(`\\b${MONTH_NAME}\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b`, 'gi'); // Sep 16
+const DAY_MONTH = new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH_NAME}(?![a-z])`, 'gi'); // 16 September
+const ISO_DATE = /\b(\d{4})-(\d{2})-(\d{2})\b/g;
+const WEEKDAY = /\b(monday|mon|tuesday|tues|tue|wednesday|wed|thursday|thurs|thur|thu|friday|fri|saturday|sat|sunday|sun)\b/gi;
+const TIME = /\b(\d{1,2})(?::(\d{2}))?\s*([ap])\.?\s?m\b\.?|\b(\d{1,2}):(\d{2})\b/gi;
+const ZONE_SUFFIX = /^\s*\(?((?:[A-Z]{1,4}T|UTC|GMT)(?:[+-]\d{1,2}(?::?\d{2})?)?)\b/;
+
+// How far (in characters) a weekday may be from the date it names
+const WEEKDAY_DISTANCE = 20;
+
+/**
+ * Post-generation checks on a reply before it is queued: the times it mentions are the
+ * proposed slots (read in the rep's zone), weekday names match their dates, every slot is
+ * offered (written out or as its [[SLOT_n]] token), every token stands for a proposed slot,
+ * and none of the user's banned phrases (pricing, discounts, ...) appear
+ */
+export class ReplyGuardrailService {
+
+  validate(body: string, options: ReplyValidationOptions): ReplyValidationReport {
+    const { timeZone } = options;
+    const message = this.withoutSignature(body, options.signature);
+    const slots = options.slots.map(slot => this.toLocalSlot(slot, timeZone));
+    const known = [...slots, ...(options.mentionable || []).map(slot => this.toLocalSlot(slot, timeZone))];
+    const zoneNames = this.zoneNames(timeZone, [new Date(), ...options.slots.map(slot => new Date(slot.start))]);
+    const referenceDate = slots[0]?.date || this.localDate(new Date(), timeZone);
+
+    const issues: ReplyValidationIssue[] = [];
+    const covered = new Set<number>();
+
+    for (const line of message.split('\n')) {
+      const dates = this.findDates(line);
+      const weekdays = this.findWeekdays(line);
+
+      for (const date of dates) {
+        const weekday = weekdays.find(mention => Math.abs(mention.index - date.index) <= WEEKDAY_DISTANCE);
+        const resolved = this.resolveDate(date, referenceDate);
+        const actual = new Date(`${resolved}T00:00:00Z`).getUTCDay();
+        if (weekday && weekday.weekday !== actual) {
+          issues.push({
+            check: 'weekday',
+            message: `"${this.excerpt(line)}" calls ${resolved} a ${WEEKDAY_NAMES[weekday.weekday]}, it is a ${WEEKDAY_NAMES[actual]}`
+          });
+        }
+      }
+
+      for (const time of this.findTimes(line, zoneNames)) {
+        // Times given in another zone can't be compared with the slots
+        if (time.otherZone) {
+          continue;
+        }
+
+        const date = this.nearest(dates, time.index);
+        const weekday = date ? undefined : this.nearest(weekdays, time.index);
+        const resolved = date ? this.resolveDate(date, referenceDate) : null;
+        const onDay = (slot: LocalSlot) => resolved ? slot.date === resolved : !weekday || slot.weekday === weekday.weekday;
+
+        const starts = slots.map((slot, i) => ({ slot, i })).filter(({ slot }) => onDay(slot) && time.minutes.includes(slot.startMinutes));
+        starts.forEach(({ i }) => covered.add(i));
+
+        const matchesKnown = known.some(slot => onDay(slot) && (time.minutes.includes(slot.startMinutes) || time.minutes.includes(slot.endMinutes)));
+        if (!matchesKnown) {
+          issues.push({
+            check: 'slot_time',
+            message: `"${this.excerpt(line)}" mentions ${time.text}, which is not one of the proposed slots in ${timeZone}`
+          });
+        }
+      }
+    }
+
+    // Tokens are replaced with the slot's label when the reply is sent
+    for (const n of findSlotTokens(message)) {
+      if (n >= 1 && n <= options.slots.length) {
+        covered.add(n - 1);
+      }
+    }
+    for (const token of unknownSlotTokens(message, options.slots.length)) {
+      issues.push({
+        check: 'slot_time',
+        message: `Mentions ${token} but only ${options.slots.length} slot(s) were proposed`
+      });
+    }
+
+    options.slots.forEach((slot, i) => {
+      if (!covered.has(i)) {
+        issues.push({
+          check: 'slot_coverage',
+          message: `Proposed slot ${slot.formatted || new Date(slot.start).toISOString()} is not mentioned in the reply`
+        });
+      }
+    });
+
+    for (const phrase of this.findBannedPhrases(message, options.bannedPhrases)) {
+      issues.push({ check: 'banned_phrase', message: `Contains banned phrase "${phrase}"` });
+    }
+
+    return {
+      passed: issues.length === 0,
+      issues,
+      timeZone,
+      validatedAt: new Date().toISOString()
+    };
+  }
+
+  // Times or weekdays in a signature ("Mon-Fri 9:00-17:00") aren't offers
+  private withoutSignature(body: string, signature?: string): string {
+    const lines = new Set((signature || '').split('\n').map(line => line.trim()).filter(Boolean));
+    return body.split('\n').filter(line => !lines.has(line.trim())).join('\n');
+  }
+
+  private toLocalSlot(slot: SlotInput, timeZone: string): LocalSlot {
+    const start = getZonedParts(new Date(slot.start), timeZone);
+    const end = getZonedParts(new Date(slot.end), timeZone);
+    return {
+      date: this.formatDate(start.year, start.month, start.day),
+      weekday: start.weekday,
+      startMinutes: start.hour * 60 + start.minute,
+      endMinutes: end.hour * 60 + end.minute
+    };
+  }
+
+  private findDates(line: string): DateMention[] {
+    const dates: DateMention[] = [];
+    for (const match of line.matchAll(MONTH_DAY)) {
+      dates.push({ index: match.index!, month: this.monthNumber(match[1]), day: Number(match[2]) });
+    }
+    for (const match of line.matchAll(DAY_MONTH)) {
+      dates.push({ index: match.index!, month: this.monthNumber(match[2]), day: Number(match[1]) });
+    }
+    for (const match of line.matchAll(ISO_DATE)) {
+      dates.push({ index: match.index!, year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) });
+    }
+    return dates.filter(date => date.day >= 1 && date.day <= 31).sort((a, b) => a.index - b.index);
+  }
+
+  private findWeekdays(line: string): WeekdayMention[] {
+    return Array.from(line.matchAll(WEEKDAY)).map(match => ({
+      index: match.index!,
+      weekday: WEEKDAYS.indexOf(match[1].substring(0, 3).toLowerCase())
+    }));
+  }
+
+  /**
+   * Times of day with every reading that fits: "2:00" without am/pm may be 2:00 or 14:00
+   */
+  private findTimes(line: string, zoneNames: Set<string>): TimeMention[] {
+    const times: TimeMention[] = [];
+    for (const match of line.matchAll(TIME)) {
+      const hour = Number(match[1] ?? match[4]);
+      const minute = Number(match[2] ?? match[5] ?? 0);
+      const meridiem = match[3]?.toLowerCase();
+      if (hour > 23 || minute > 59 || (meridiem && (hour === 0 || hour > 12))) {
+        continue;
+      }
+
+      let minutes: number[];
+      if (meridiem) {
+        minutes = [((hour % 12) + (meridiem === 'p' ? 12 : 0)) * 60 + minute];
+      } else {
+        minutes = hour >= 1 && hour < 12 ? [hour * 60 + minute, (hour + 12) * 60 + minute] : [hour * 60 + minute];
+      }
+
+      const zone = line.substring(match.index! + match[0].length).match(ZONE_SUFFIX)?.[1];
+      times.push({
+        index: match.index!,
+        text: match[0].trim(),
+        minutes,
+        otherZone: !!zone && !zoneNames.has(zone)
+      });
+    }
+    return times;
+  }
+
+  private findBannedPhrases(body: string, phrases: string[]): string[] {
+    return phrases
+      .map(phrase => phrase.trim())
+      .filter(phrase => {
+        if (!phrase) {
+          return false;
+        }
+        const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        const before = /^\w/.test(phrase) ? '(?<!\\w)' : '';
+        const after = /\w$/.test(phrase) ? '(?!\\w)' : '';
+        return new RegExp(`${before}${escaped}${after}`, 'i').test(body);
+      });
+  }
+
+  // Abbreviations the rep's zone goes by on the given dates, e.g. PDT, PST and PT
+  private zoneNames(timeZone: string, dates: Date[]): Set<string> {
+    const names = new Set<string>();
+    for (const style of ['short', 'shortGeneric'] as const) {
+      for (const date of dates) {
+        try {
+          const name = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: style })
+            .formatToParts(date)
+            .find(part => part.type === 'timeZoneName')?.value;
+          if (name) {
+            names.add(name);
+          }
+        } catch {
+          // shortGeneric is missing on older runtimes
+        }
+      }
+    }
+    if (names.has('UTC') || names.has('GMT')) {
+      names.add('UTC');
+      names.add('GMT');
+    }
+    return names;
+  }
+
+  // The mention closest before the index, else the first one after it
+  private nearest<T extends { index: number }>(mentions: T[], index: number): T | undefined {
+    const before = mentions.filter(mention => mention.index <= index);
+    return before.length > 0 ? before[before.length - 1] : mentions.find(mention => mention.index > index);
+  }
+
+  /**
+   * YYYY-MM-DD of a mentioned date; without a year, the year that puts it closest to the reference date
+   */
+  private resolveDate(date: DateMention, referenceDate: string): string {
+    if (date.year) {
+      return this.formatDate(date.year, date.month, date.day);
+    }
+
+    const reference = Date.parse(`${referenceDate}T00:00:00Z`);
+    const year = Number(referenceDate.substring(0, 4));
+    const best = [year - 1, year, year + 1].reduce((closest, candidate) =>
+      Math.abs(Date.UTC(candidate, date.month - 1, date.day) - reference) < Math.abs(Date.UTC(closest, date.month - 1, date.day) - reference)
+        ? candidate
+        : closest
+    );
+    return this.formatDate(best, date.month, date.day);
+  }
+
+  private localDate(date: Date, timeZone: string): string {
+    const parts = getZonedParts(date, timeZone);
+    return this.formatDate(parts.year, parts.month, parts.day);
+  }
+
+  private formatDate(year: number, month: number, day: number): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${year}-${pad(month)}-${pad(day)}`;
+  }
+
+  private monthNumber(name: string): number {
+    return MONTHS.indexOf(name.substring(0, 3).toLowerCase()) + 1;
+  }
+
+  private excerpt(line: string): string {
+    const text = line.trim().replace(/^[-*•]\s*/, '');
+    return text.length > 100 ? `${text.substring(0, 100)}...` : text;
+  }
+}
+
+export const replyGuardrailService = new ReplyGuardrailService();
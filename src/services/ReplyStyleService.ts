@@ -0,0 +1,296 @@
+import { ReplyStyleProfileData, replyStyleProfileRepository } from '@/database/repositories';
+import { ScheduledResponseRepository } from '@/database/repositories/ScheduledResponseRepository';
+import { PiiCategory, ReplyStyleGuidance } from '@/types';
+import { ReplyStyleProfile } from '@prisma/client';
+import { piiRedactionService } from './PiiRedactionService';
+
+// Edited drafts the profile is built from, and how many of them are shown as examples
+const PROFILE_SAMPLE_SIZE = 20;
+const FEW_SHOT_EXAMPLES = 3;
+const MAX_EXAMPLE_CHARS = 1200;
+const MAX_PHRASES = 5;
+
+const GREETING_PATTERN = /^(hi|hello|hey|dear|greetings|good (morning|afternoon|evening))\b/i;
+const SIGN_OFF_PATTERN = /^(best|thanks|thank you|many thanks|cheers|regards|kind regards|best regards|warm regards|warmly|sincerely|talk soon|speak soon|all the best)\b/i;
+
+export interface ReplyEdit {
+  original: string;
+  edited: string;
+  recipientName?: string | null;
+}
+
+// A reply split into its greeting line, message and closing line (signature dropped)
+interface ReplyParts {
+  greeting: string | null;
+  message: string;
+  signOff: string | null;
+}
+
+/**
+ * Learns how a user rewrites AI drafts (greeting, sign-off, length, phrases they add or
+ * remove) from the original and edited bodies of their scheduled responses, and turns it
+ * into guidance for the next drafts
+ */
+export class ReplyStyleService {
+  private scheduledResponseRepository = new ScheduledResponseRepository();
+
+  async getProfile(userId: string): Promise<ReplyStyleProfile | null> {
+    return replyStyleProfileRepository.findByUserId(userId);
+  }
+
+  /**
+   * Rebuild the profile from the user's recent edits; never fails the edit that triggered it
+   */
+  async refreshProfile(userId: string): Promise<ReplyStyleProfile | null> {
+    try {
+      const edits = await this.getRecentEdits(userId, PROFILE_SAMPLE_SIZE);
+      if (edits.length === 0) {
+        return null;
+      }
+
+      const profile = await replyStyleProfileRepository.upsert(userId, this.buildProfile(edits));
+      console.log(`✍️ Reply style profile updated from ${edits.length} edited drafts for user ${userId}`);
+      return profile;
+    } catch (error) {
+      console.error(`✍️ Failed to update reply style profile for user ${userId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Style instructions and recent before/after examples for new drafts; null until the
+   * user has edited one. The examples were sent to other prospects, so their names and the
+   * user's PII categories are redacted.
+   */
+  async getGuidance(userId: string, piiCategories: PiiCategory[]): Promise<ReplyStyleGuidance | null> {
+    const [profile, edits] = await Promise.all([
+      replyStyleProfileRepository.findByUserId(userId),
+      this.getRecentEdits(userId, FEW_SHOT_EXAMPLES)
+    ]);
+
+    if (!profile || edits.length === 0) {
+      return null;
+    }
+
+    return {
+      prompt: this.describe(profile, edits, piiCategories),
+      signOff: profile.signOff
+    };
+  }
+
+  buildProfile(edits: ReplyEdit[]): ReplyStyleProfileData {
+    // Names are taken out first so learned phrases never carry a prospect's name
+    const parsed = edits.map(edit => ({
+      original: this.splitReply(this.withNamePlaceholder(edit.original, edit.recipientName)),
+      edited: this.splitReply(this.withNamePlaceholder(edit.edited, edit.recipientName))
+    }));
+
+    const ratios = parsed
+      .map(({ original, edited }) => ({ before: this.wordCount(original.message), after: this.wordCount(edited.message) }))
+      .filter(({ before }) => before > 0);
+    const lengthRatio = ratios.length > 0
+      ? ratios.reduce((sum, { before, after }) => sum + after / before, 0) / ratios.length
+      : null;
+
+    // With several edits, a phrase has to come up in at least two of them to count
+    const minOccurrences = edits.length > 1 ? 2 : 1;
+
+    return {
+      greeting: this.mostCommon(parsed.map(p => p.edited.greeting)),
+      signOff: this.mostCommon(parsed.map(p => p.edited.signOff)),
+      lengthRatio: lengthRatio === null ? null : Math.round(lengthRatio * 100) / 100,
+      targetWordCount: this.median(ratios.map(({ after }) => after)),
+      preferredPhrases: this.recurringPhrases(parsed.map(p => this.sentenceDiff(p.edited.message, p.original.message)), minOccurrences),
+      avoidedPhrases: this.recurringPhrases(parsed.map(p => this.sentenceDiff(p.original.message, p.edited.message)), minOccurrences),
+      sampleSize: edits.length
+    };
+  }
+
+  /**
+   * Replace the closing line of a signature ("Best regards,") with the learned sign-off,
+   * or put the sign-off above a signature that has none
+   */
+  withSignOff(signature: string, signOff: string): string {
+    const [first, ...rest] = signature.split('\n');
+    return this.isSignOff(first.trim()) ? [signOff, ...rest].join('\n') : `${signOff}\n${signature}`;
+  }
+
+  private async getRecentEdits(userId: string, limit: number): Promise<ReplyEdit[]> {
+    const responses = await this.scheduledResponseRepository.findEditedByUser(userId, limit);
+    return responses
+      .filter(response => response.originalBody && response.originalBody.trim() !== response.body.trim())
+      .map(response => ({
+        original: response.originalBody!,
+        edited: response.body,
+        recipientName: response.recipientName
+      }));
+  }
+
+  private describe(profile: ReplyStyleProfile, edits: ReplyEdit[], piiCategories: PiiCategory[]): string {
+    const scrub = (text: string) => piiRedactionService.scrub(text, piiCategories);
+    const rules: string[] = [];
+
+    if (profile.greeting) {
+      rules.push(`Open with "${profile.greeting}" ({firstName} is the prospect's first name)`);
+    }
+    if (profile.targetWordCount) {
+      const change = profile.lengthRatio && Math.abs(profile.lengthRatio - 1) >= 0.1
+        ? ` - edits make drafts ${profile.lengthRatio < 1 ? 'shorter' : 'longer'}, about ${Math.round(profile.lengthRatio * 100)}% of the generated length`
+        : '';
+      rules.push(`Keep the message to about ${profile.targetWordCount} words${change}`);
+    }
+    if (profile.preferredPhrases.length > 0) {
+      rules.push(`Phrasing they add: ${profile.preferredPhrases.map(phrase => `"${scrub(phrase)}"`).join('; ')}`);
+    }
+    if (profile.avoidedPhrases.length > 0) {
+      rules.push(`Phrasing they remove, avoid it: ${profile.avoidedPhrases.map(phrase => `"${scrub(phrase)}"`).join('; ')}`);
+    }
+
+    const examples = edits.map((edit, i) => `
+Example ${i + 1} - draft:
+"""
+${scrub(this.exampleText(edit.original, edit.recipientName))}
+"""
+Sent as:
+"""
+${scrub(this.exampleText(edit.edited, edit.recipientName))}
+"""`.trim());
+
+    return `
+Reply style, learned from ${profile.sampleSize} draft(s) the user edited before sending. Follow it unless the email calls for something else:
+${rules.map(rule => `- ${rule}`).join('\n') || '- Match the tone and length of the edited examples'}
+
+Recent drafts and how the user edited them ({firstName} and {name} stand for the prospect's name; personal data is removed):
+${examples.join('\n\n')}
+    `.trim();
+  }
+
+  // Examples leave out the closing and signature (those are appended automatically) and the prospect's name
+  private exampleText(body: string, recipientName?: string | null): string {
+    const { greeting, message } = this.splitReply(body);
+    const text = this.withNamePlaceholder([greeting, message].filter(Boolean).join('\n\n'), recipientName);
+    return text.length > MAX_EXAMPLE_CHARS ? `${text.substring(0, MAX_EXAMPLE_CHARS)}...` : text;
+  }
+
+  private splitReply(body: string): ReplyParts {
+    const lines = body.replace(/\r\n/g, '\n').trim().split('\n');
+
+    const first = lines.findIndex(line => line.trim());
+    const greeting = first !== -1 && this.isGreeting(lines[first].trim()) ? lines[first].trim() : null;
+    const start = greeting ? first + 1 : 0;
+
+    // The closing is the last sign-off line; what follows it is the signature
+    let end = lines.length;
+    for (let i = lines.length - 1; i >= start; i--) {
+      if (this.isSignOff(lines[i].trim())) {
+        end = i;
+        break;
+      }
+    }
+
+    return {
+      greeting,
+      message: lines.slice(start, end).join('\n').trim(),
+      signOff: end < lines.length ? lines[end].trim() : null
+    };
+  }
+
+  private isGreeting(line: string): boolean {
+    return GREETING_PATTERN.test(line) && line.split(/\s+/).length <= 8;
+  }
+
+  // "Best regards," or a short "Thanks!", but not "Thanks for reaching out!"
+  private isSignOff(line: string): boolean {
+    const words = line.split(/\s+/).length;
+    return SIGN_OFF_PATTERN.test(line) && words <= 4 && (line.endsWith(',') || words <= 2);
+  }
+
+  // The prospect's first name replaced with {firstName}, the rest of their name with {name}
+  private withNamePlaceholder(text: string, recipientName?: string | null): string {
+    const [firstName, ...otherNames] = recipientName?.trim().split(/\s+/) || [];
+    if (!firstName || firstName.includes('@')) {
+      return text;
+    }
+
+    const pattern = (name: string) => new RegExp(`\\b${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'gi');
+    return otherNames
+      .filter(name => name.length > 1)
+      .reduce((replaced, name) => replaced.replace(pattern(name), '{name}'), text.replace(pattern(firstName), '{firstName}'));
+  }
+
+  /**
+   * Sentences of `text` that are not in `other`, keyed by their normalized form
+   */
+  private sentenceDiff(text: string, other: string): Map<string, string> {
+    const otherKeys = new Set(this.sentences(other).map(sentence => this.normalize(sentence)));
+    const diff = new Map<string, string>();
+    for (const sentence of this.sentences(text)) {
+      const key = this.normalize(sentence);
+      if (!otherKeys.has(key)) {
+        diff.set(key, sentence);
+      }
+    }
+    return diff;
+  }
+
+  private recurringPhrases(diffs: Array<Map<string, string>>, minOccurrences: number): string[] {
+    const counts = new Map<string, { text: string; count: number }>();
+    for (const diff of diffs) {
+      for (const [key, text] of diff) {
+        const entry = counts.get(key) || { text, count: 0 };
+        entry.count++;
+        counts.set(key, entry);
+      }
+    }
+
+    return Array.from(counts.values())
+      .filter(({ count }) => count >= minOccurrences)
+      .sort((a, b) => b.count - a.count)
+      .slice(0, MAX_PHRASES)
+      .map(({ text }) => text);
+  }
+
+  private sentences(text: string): string[] {
+    return text
+      .split(/\n+|(?<=[.!?])\s+/)
+      .map(sentence => sentence.trim().replace(/^[-*•]\s*/, ''))
+      .filter(sentence => sentence.split(/\s+/).length >= 3);
+  }
+
+  private normalize(sentence: string): string {
+    return sentence.toLowerCase().replace(/\s+/g, ' ').replace(/[.!?,;:]+$/, '').trim();
+  }
+
+  private wordCount(text: string): number {
+    return text.split(/\s+/).filter(Boolean).length;
+  }
+
+  // Most frequent value; ties go to the earliest, i.e. the most recent edit
+  private mostCommon(values: Array<string | null>): string | null {
+    const counts = new Map<string, number>();
+    for (const value of values) {
+      if (value) {
+        counts.set(value, (counts.get(value) || 0) + 1);
+      }
+    }
+
+    let best: string | null = null;
+    for (const [value, count] of counts) {
+      if (best === null || count > counts.get(best)!) {
+        best = value;
+      }
+    }
+    return best;
+  }
+
+  private median(values: number[]): number | null {
+    if (values.length === 0) {
+      return null;
+    }
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return Math.round(sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2);
+  }
+}
+
+export const replyStyleService = new ReplyStyleService();
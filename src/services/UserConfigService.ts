@@ -1,5 +1,17 @@
-import { userRepository } from '@/database/repositories';
-import { User } from '@prisma/client';
+import { availabilityRepository, userRepository } from '@/database/repositories';
+import { AvailabilityOverrideRule, AvailabilityRules, PiiCategory, SlotSelectionPolicy, TimeInterval, WeeklyHours } from '@/types';
+import {
+  describeOverride,
+  describeWeeklyHours,
+  formatLocalDate,
+  weeklyHoursFromBusinessHours
+} from '@/utils/availability';
+import { config } from '@/utils/config';
+import { PII_CATEGORIES } from '@/utils/piiRedaction';
+import { DEFAULT_SLOT_SELECTION } from '@/utils/slotRanker';
+import { getZonedParts, resolveTimeZone } from '@/utils/timezone';
+import { AvailabilityOverride, AvailabilityWindow, User } from '@prisma/client';
+import { replyStyleService } from './ReplyStyleService';
 
 export interface UserConfig {
   salesName: string;
@@ -10,8 +22,28 @@ export interface UserConfig {
   businessHoursEnd: string;
   workingDays: number[];
   timezone: string;
+  locale: string;
   meetingDuration: number;
   bufferTime: number;
+  weeklyHours: WeeklyHours;
+  availabilityOverrides: AvailabilityOverrideRule[];
+  proposedSlotCount: number;
+  maxSlotsPerDay: number;
+  minSlotGapMinutes: number;
+  holdProposedSlots: boolean;
+  holdTtlHours: number;
+  llmProvider: string | null;
+  llmModel: string | null;
+  monthlyAiBudgetUsd: number | null;
+  autoSendMinConfidence: number;
+  draftMinConfidence: number;
+  piiRedactionCategories: PiiCategory[];
+  bannedReplyPhrases: string[];
+}
+
+export interface AvailabilitySchedule {
+  weeklyHours: WeeklyHours;
+  overrides: AvailabilityOverrideRule[];
 }
 
 export class UserConfigService {
@@ -20,17 +52,21 @@ export class UserConfigService {
     const user = await userRepository.findById(userId);
     if (!user) return null;
     
-    return this.mapUserToConfig(user);
+    return this.getConfigForUser(user);
+  }
+
+  async getConfigForUser(user: User): Promise<UserConfig> {
+    return this.mapUserToConfig(user, await this.getAvailabilitySchedule(user));
   }
 
   async getUserConfigByEmail(email: string): Promise<UserConfig | null> {
     const user = await userRepository.findByEmail(email);
     if (!user) return null;
     
-    return this.mapUserToConfig(user);
+    return this.mapUserToConfig(user, await this.getAvailabilitySchedule(user));
   }
 
-  private mapUserToConfig(user: User): UserConfig {
+  private mapUserToConfig(user: User, schedule: AvailabilitySchedule): UserConfig {
     return {
       salesName: user.salesName || user.name || 'Sales Team',
       salesEmail: user.salesEmail || user.email,
@@ -43,11 +79,122 @@ export class UserConfigService {
       businessHoursEnd: user.businessHoursEnd, 
       workingDays: user.workingDays,
       timezone: user.timezone,
+      locale: user.locale,
       meetingDuration: user.meetingDuration,
-      bufferTime: user.bufferTime
+      bufferTime: user.bufferTime,
+      weeklyHours: schedule.weeklyHours,
+      availabilityOverrides: schedule.overrides,
+      proposedSlotCount: user.proposedSlotCount,
+      maxSlotsPerDay: user.maxSlotsPerDay,
+      minSlotGapMinutes: user.minSlotGapMinutes,
+      holdProposedSlots: user.holdProposedSlots,
+      holdTtlHours: user.holdTtlHours,
+      llmProvider: user.llmProvider,
+      llmModel: user.llmModel,
+      monthlyAiBudgetUsd: user.monthlyAiBudgetUsd,
+      autoSendMinConfidence: user.autoSendMinConfidence,
+      draftMinConfidence: user.draftMinConfidence,
+      piiRedactionCategories: PII_CATEGORIES.filter(category => user.piiRedactionCategories.includes(category)),
+      bannedReplyPhrases: user.bannedReplyPhrases
+    };
+  }
+
+  /**
+   * The user's weekly hours and current/upcoming overrides. Users without weekly windows
+   * fall back to their single businessHoursStart/End pair on their working days.
+   */
+  async getAvailabilitySchedule(user: User): Promise<AvailabilitySchedule> {
+    const timeZone = resolveTimeZone(user.timezone, config.businessRules.timezone);
+    const today = formatLocalDate(getZonedParts(new Date(), timeZone));
+
+    const [windows, overrides] = await Promise.all([
+      availabilityRepository.findWindowsByUser(user.id),
+      availabilityRepository.findOverridesByUser(user.id, today)
+    ]);
+
+    return {
+      weeklyHours: windows.length > 0
+        ? this.mapWindowsToWeeklyHours(windows)
+        : weeklyHoursFromBusinessHours(user.businessHoursStart, user.businessHoursEnd, user.workingDays),
+      overrides: overrides.map(override => this.mapOverride(override))
+    };
+  }
+
+  private mapWindowsToWeeklyHours(windows: AvailabilityWindow[]): WeeklyHours {
+    const weeklyHours: WeeklyHours = {};
+    for (const window of windows) {
+      weeklyHours[window.weekday] = [
+        ...(weeklyHours[window.weekday] || []),
+        { start: window.startTime, end: window.endTime }
+      ];
+    }
+    return weeklyHours;
+  }
+
+  mapOverride(override: AvailabilityOverride): AvailabilityOverrideRule {
+    return {
+      id: override.id,
+      startDate: override.startDate,
+      endDate: override.endDate,
+      type: override.type,
+      intervals: (override.intervals as unknown as TimeInterval[]) || [],
+      reason: override.reason
+    };
+  }
+
+  /**
+   * Scheduling rules for availability search: the user's schedule, duration and buffer,
+   * with the remaining BusinessRules (travel buffer, notice, lookahead) from app config.
+   * Without a user, app-wide defaults are used.
+   */
+  getAvailabilityRules(user?: User | null, schedule?: AvailabilitySchedule): AvailabilityRules {
+    const rules = config.businessRules;
+
+    return {
+      timezone: resolveTimeZone(user?.timezone, rules.timezone),
+      weeklyHours: schedule?.weeklyHours || weeklyHoursFromBusinessHours(
+        user?.businessHoursStart || rules.businessHours.start,
+        user?.businessHoursEnd || rules.businessHours.end,
+        user?.workingDays?.length ? user.workingDays : rules.workingDays
+      ),
+      overrides: schedule?.overrides || [],
+      meetingDuration: user?.meetingDuration || rules.meetingDuration,
+      bufferTime: user?.bufferTime ?? rules.bufferTime,
+      travelBufferTime: Math.max(rules.travelBufferTime, user?.bufferTime ?? 0),
+      minAdvanceNotice: rules.minAdvanceNotice,
+      maxLookaheadDays: rules.maxLookaheadDays,
+      slotIncrement: rules.slotIncrement,
+      slotSelection: this.getSlotSelectionPolicy(user)
+    };
+  }
+
+  getSlotSelectionPolicy(user?: User | null): SlotSelectionPolicy {
+    if (!user) {
+      return DEFAULT_SLOT_SELECTION;
+    }
+
+    return {
+      slotCount: user.proposedSlotCount,
+      maxSlotsPerDay: user.maxSlotsPerDay,
+      minGapMinutes: user.minSlotGapMinutes
     };
   }
 
+  async loadAvailabilityRules(user: User): Promise<AvailabilityRules> {
+    return this.getAvailabilityRules(user, await this.getAvailabilitySchedule(user));
+  }
+
+  /**
+   * Availability summary for AI prompts
+   */
+  describeAvailability(rules: AvailabilityRules): string {
+    const lines = [`Working hours (${rules.timezone}): ${describeWeeklyHours(rules.weeklyHours)}`];
+    if (rules.overrides.length > 0) {
+      lines.push(`Exceptions: ${rules.overrides.map(describeOverride).join('; ')}`);
+    }
+    return lines.join('\n');
+  }
+
   private getDefaultSignature(salesName: string, companyName: string): string {
     return `Best regards,
 ${salesName}
@@ -67,11 +214,24 @@ If you have any questions, please reply to this email.`;
       businessHoursEnd: config.businessHoursEnd,
       workingDays: config.workingDays,
       timezone: config.timezone,
+      locale: config.locale,
       meetingDuration: config.meetingDuration,
-      bufferTime: config.bufferTime
+      bufferTime: config.bufferTime,
+      proposedSlotCount: config.proposedSlotCount,
+      maxSlotsPerDay: config.maxSlotsPerDay,
+      minSlotGapMinutes: config.minSlotGapMinutes,
+      holdProposedSlots: config.holdProposedSlots,
+      holdTtlHours: config.holdTtlHours,
+      llmProvider: config.llmProvider,
+      llmModel: config.llmModel,
+      monthlyAiBudgetUsd: config.monthlyAiBudgetUsd,
+      autoSendMinConfidence: config.autoSendMinConfidence,
+      draftMinConfidence: config.draftMinConfidence,
+      piiRedactionCategories: config.piiRedactionCategories,
+      bannedReplyPhrases: config.bannedReplyPhrases
     });
 
-    return this.mapUserToConfig(updatedUser);
+    return this.mapUserToConfig(updatedUser, await this.getAvailabilitySchedule(updatedUser));
   }
 
   // Get user config for the currently authenticated user (from auth context)
@@ -91,6 +251,14 @@ If you have any questions, please reply to this email.`;
     
     return this.getDefaultSignature(config.salesName, config.companyName);
   }
+
+  /**
+   * Email body followed by the user's signature, closed with their learned sign-off if any
+   */
+  appendSignature(body: string, config: UserConfig, signOff?: string | null): string {
+    const signature = this.generateEmailSignature(config);
+    return `${body.trimEnd()}\n\n${signOff ? replyStyleService.withSignOff(signature, signOff) : signature}`;
+  }
 }
 
 export const userConfigService = new UserConfigService();
\ No newline at end of file
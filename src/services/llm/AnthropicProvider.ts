@@ -0,0 +1,165 @@
+import { LLMChatRequest, LLMChatResponse, LLMMessage, LLMProvider, LLMToolCall } from '@/types';
+
+const API_URL = 'https://api.anthropic.com/v1/messages';
+const API_VERSION = '2023-06-01';
+const DEFAULT_MAX_TOKENS = 1024;
+
+type ContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: any }
+  | { type: 'tool_result'; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: ContentBlock[];
+}
+
+/**
+ * Anthropic Messages API over fetch. Tool results become user tool_result blocks and
+ * consecutive same-role messages are merged, since the API requires alternating turns.
+ * There is no JSON mode, so JSON requests are enforced through the system prompt.
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const;
+  readonly model: string;
+  private apiKey: string;
+
+  constructor(options: { apiKey: string; model: string }) {
+    this.apiKey = options.apiKey;
+    this.model = options.model;
+  }
+
+  async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+    const system = request.messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content || '');
+
+    if (request.responseFormat === 'json') {
+      system.push('Respond with a single valid JSON object and nothing else.');
+    }
+
+    // Tools stay defined under 'none': the API rejects tool_use history without them
+    const useTools = !!request.tools?.length;
+    const toolChoice = request.toolChoice;
+
+    const body: Record<string, any> = {
+      model: this.model,
+      max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+      messages: this.toAnthropicMessages(request.messages),
+      temperature: request.temperature,
+    };
+
+    if (system.length > 0) {
+      body.system = system.join('\n\n');
+    }
+
+    if (useTools) {
+      body.tools = request.tools!.map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        input_schema: tool.parameters
+      }));
+      body.tool_choice = toolChoice && typeof toolChoice === 'object'
+        ? { type: 'tool', name: toolChoice.name }
+        : { type: toolChoice === 'none' ? 'none' : 'auto' };
+    }
+
+    const response = await fetch(API_URL, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': API_VERSION
+      },
+      body: JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Anthropic API error ${response.status}: ${await response.text()}`);
+    }
+
+    const data: any = await response.json();
+    const blocks: ContentBlock[] = data.content || [];
+
+    const text = blocks
+      .filter((block): block is Extract<ContentBlock, { type: 'text' }> => block.type === 'text')
+      .map(block => block.text)
+      .join('');
+
+    const toolCalls: LLMToolCall[] = blocks
+      .filter((block): block is Extract<ContentBlock, { type: 'tool_use' }> => block.type === 'tool_use')
+      .map(block => ({ id: block.id, name: block.name, arguments: JSON.stringify(block.input ?? {}) }));
+
+    return {
+      message: {
+        role: 'assistant',
+        content: request.responseFormat === 'json' ? this.extractJson(text) : text || null,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined
+      },
+      model: data.model || this.model,
+      finishReason: data.stop_reason,
+      usage: data.usage ? {
+        inputTokens: data.usage.input_tokens || 0,
+        outputTokens: data.usage.output_tokens || 0
+      } : undefined
+    };
+  }
+
+  private toAnthropicMessages(messages: LLMMessage[]): AnthropicMessage[] {
+    const result: AnthropicMessage[] = [];
+
+    const append = (role: AnthropicMessage['role'], content: ContentBlock[]) => {
+      if (content.length === 0) return;
+      const last = result[result.length - 1];
+      if (last && last.role === role) {
+        last.content.push(...content);
+      } else {
+        result.push({ role, content });
+      }
+    };
+
+    for (const message of messages) {
+      switch (message.role) {
+        case 'system':
+          break;
+        case 'user':
+          append('user', message.content ? [{ type: 'text', text: message.content }] : []);
+          break;
+        case 'tool':
+          append('user', [{ type: 'tool_result', tool_use_id: message.toolCallId || '', content: message.content || '' }]);
+          break;
+        case 'assistant':
+          append('assistant', [
+            ...(message.content ? [{ type: 'text' as const, text: message.content }] : []),
+            ...(message.toolCalls || []).map(toolCall => ({
+              type: 'tool_use' as const,
+              id: toolCall.id,
+              name: toolCall.name,
+              input: this.parseArguments(toolCall.arguments)
+            }))
+          ]);
+          break;
+      }
+    }
+
+    return result;
+  }
+
+  private parseArguments(args: string): any {
+    try {
+      return JSON.parse(args);
+    } catch {
+      return {};
+    }
+  }
+
+  // Strip prose or code fences around the JSON object
+  private extractJson(text: string): string | null {
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    if (start === -1 || end < start) {
+      return text || null;
+    }
+    return text.slice(start, end + 1);
+  }
+}
@@ -0,0 +1,92 @@
+import { LLMChatRequest, LLMChatResponse, LLMMessage, LLMProvider, LLMProviderName } from '@/types';
+import OpenAI from 'openai';
+
+export interface OpenAIProviderOptions {
+  apiKey?: string;
+  model: string;
+  baseUrl?: string; // OpenAI-compatible endpoint (e.g. Ollama at http://localhost:11434/v1)
+  name?: LLMProviderName;
+}
+
+/**
+ * Chat completions via the openai SDK. Also serves OpenAI-compatible local endpoints.
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  private client: OpenAI;
+
+  constructor(options: OpenAIProviderOptions) {
+    this.name = options.name || 'openai';
+    this.model = options.model;
+    this.client = new OpenAI({
+      // Local servers usually ignore the key, but the SDK requires one
+      apiKey: options.apiKey || 'not-needed',
+      baseURL: options.baseUrl
+    });
+  }
+
+  async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+    const toolChoice = request.toolChoice;
+
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: request.messages.map(message => this.toOpenAIMessage(message)),
+      tools: request.tools?.length
+        ? request.tools.map(tool => ({ type: 'function' as const, function: tool }))
+        : undefined,
+      tool_choice: request.tools?.length && toolChoice
+        ? (typeof toolChoice === 'string' ? toolChoice : { type: 'function', function: { name: toolChoice.name } })
+        : undefined,
+      response_format: request.responseFormat === 'json' ? { type: 'json_object' } : undefined,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+    });
+
+    const choice = response.choices[0];
+    if (!choice?.message) {
+      throw new Error(`No response from ${this.name}`);
+    }
+
+    return {
+      message: {
+        role: 'assistant',
+        content: choice.message.content,
+        toolCalls: choice.message.tool_calls?.map(toolCall => ({
+          id: toolCall.id,
+          name: toolCall.function.name,
+          arguments: toolCall.function.arguments
+        }))
+      },
+      model: response.model || this.model,
+      finishReason: choice.finish_reason,
+      usage: response.usage ? {
+        inputTokens: response.usage.prompt_tokens,
+        outputTokens: response.usage.completion_tokens
+      } : undefined
+    };
+  }
+
+  private toOpenAIMessage(message: LLMMessage): OpenAI.Chat.ChatCompletionMessageParam {
+    switch (message.role) {
+      case 'system':
+        return { role: 'system', content: message.content || '' };
+      case 'user':
+        return { role: 'user', content: message.content || '' };
+      case 'tool':
+        return { role: 'tool', tool_call_id: message.toolCallId || '', content: message.content || '' };
+      case 'assistant':
+        return {
+          role: 'assistant',
+          content: message.content,
+          tool_calls: message.toolCalls?.length
+            ? message.toolCalls.map(toolCall => ({
+              id: toolCall.id,
+              type: 'function' as const,
+              function: { name: toolCall.name, arguments: toolCall.arguments }
+            }))
+            : undefined
+        };
+    }
+  }
+}
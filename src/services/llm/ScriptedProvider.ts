@@ -0,0 +1,70 @@
+import { LLMChatRequest, LLMChatResponse, LLMProvider } from '@/types';
+import fs from 'fs';
+
+/**
+ * One canned reply. A step is used by the first chat call whose latest message contains
+ * `match` (any call when omitted), then consumed unless `repeat` is set.
+ */
+export interface ScriptedStep {
+  match?: string;
+  content?: string | Record<string, any>; // objects are sent as JSON text
+  toolCalls?: Array<{ name: string; arguments?: Record<string, any> }>;
+  repeat?: boolean;
+}
+
+/**
+ * Deterministic provider that replays a fixture script instead of calling a model,
+ * for tests and local development without API keys
+ */
+export class ScriptedProvider implements LLMProvider {
+  readonly name = 'scripted' as const;
+  readonly model = 'scripted';
+  private steps: ScriptedStep[];
+  private callCount = 0;
+
+  constructor(steps: ScriptedStep[]) {
+    this.steps = [...steps];
+  }
+
+  /**
+   * Load a script from a JSON file holding an array of steps (or `{ "steps": [...] }`)
+   */
+  static fromFile(path: string): ScriptedProvider {
+    const parsed = JSON.parse(fs.readFileSync(path, 'utf8'));
+    return new ScriptedProvider(Array.isArray(parsed) ? parsed : parsed.steps || []);
+  }
+
+  async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+    const latest = request.messages[request.messages.length - 1]?.content || '';
+    const index = this.steps.findIndex(step => !step.match || latest.includes(step.match));
+
+    if (index === -1) {
+      throw new Error(`Scripted LLM: no step matches the latest message: ${latest.substring(0, 100)}`);
+    }
+
+    const step = this.steps[index];
+    if (!step.repeat) {
+      this.steps.splice(index, 1);
+    }
+
+    const callNumber = ++this.callCount;
+    const content = step.content === undefined
+      ? null
+      : typeof step.content === 'string' ? step.content : JSON.stringify(step.content);
+
+    return {
+      message: {
+        role: 'assistant',
+        content,
+        toolCalls: step.toolCalls?.map((toolCall, i) => ({
+          id: `scripted-${callNumber}-${i}`,
+          name: toolCall.name,
+          arguments: JSON.stringify(toolCall.arguments || {})
+        }))
+      },
+      model: this.model,
+      finishReason: step.toolCalls?.length ? 'tool_calls' : 'stop',
+      usage: { inputTokens: 0, outputTokens: 0 }
+    };
+  }
+}
@@ -0,0 +1,68 @@
+import { LLMProvider, LLMProviderName } from '@/types';
+import { config } from '@/utils/config';
+import { User } from '@prisma/client';
+import { AnthropicProvider } from './AnthropicProvider';
+import { OpenAIProvider } from './OpenAIProvider';
+import { ScriptedProvider } from './ScriptedProvider';
+
+export const LLM_PROVIDER_NAMES: LLMProviderName[] = ['openai', 'anthropic', 'openai-compatible', 'scripted'];
+
+/**
+ * Builds chat providers from app config. The environment picks the default provider
+ * (LLM_PROVIDER); a user's llmProvider/llmModel override it for that user's mailbox.
+ */
+export class LLMProviderFactory {
+  private defaultProvider?: LLMProvider;
+
+  create(name: LLMProviderName = config.llm.provider, model?: string): LLMProvider {
+    switch (name) {
+      case 'openai':
+        return new OpenAIProvider({
+          apiKey: config.openai.apiKey,
+          model: model || config.openai.model
+        });
+      case 'openai-compatible':
+        return new OpenAIProvider({
+          name: 'openai-compatible',
+          apiKey: config.llm.openaiCompatible.apiKey,
+          baseUrl: config.llm.openaiCompatible.baseUrl,
+          model: model || config.llm.openaiCompatible.model
+        });
+      case 'anthropic':
+        if (!config.llm.anthropic.apiKey) {
+          throw new Error('ANTHROPIC_API_KEY is not configured');
+        }
+        return new AnthropicProvider({
+          apiKey: config.llm.anthropic.apiKey,
+          model: model || config.llm.anthropic.model
+        });
+      case 'scripted':
+        return config.llm.scriptPath ? ScriptedProvider.fromFile(config.llm.scriptPath) : new ScriptedProvider([]);
+      default:
+        throw new Error(`Unknown LLM provider: ${name}`);
+    }
+  }
+
+  /**
+   * The environment's provider, created on first use
+   */
+  getDefault(): LLMProvider {
+    if (!this.defaultProvider) {
+      this.defaultProvider = this.create();
+    }
+    return this.defaultProvider;
+  }
+
+  forUser(user: Pick<User, 'llmProvider' | 'llmModel'>): LLMProvider {
+    if (!user.llmProvider && !user.llmModel) {
+      return this.getDefault();
+    }
+    return this.create((user.llmProvider as LLMProviderName) || config.llm.provider, user.llmModel || undefined);
+  }
+}
+
+// Export singleton instance
+export const llmProviderFactory = new LLMProviderFactory();
+
+export { AnthropicProvider, OpenAIProvider, ScriptedProvider };
+export type { ScriptedStep } from './ScriptedProvider';
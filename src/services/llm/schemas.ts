@@ -0,0 +1,63 @@
+import { isValidTimeZone } from '@/utils/timezone';
+import { z } from 'zod';
+
+// Schemas for every JSON reply we ask a model for. They validate the reply and, via
+// zodToJsonSchema, describe the expected format in the prompt.
+
+const isoDateTime = z.string()
+  .refine(value => !isNaN(Date.parse(value)), 'must be an ISO 8601 date-time with a UTC offset')
+  .describe('ISO 8601 date-time with a UTC offset');
+
+export const contactInfoSchema = z.object({
+  name: z.string().min(1).describe("Sender's name"),
+  email: z.string().email().describe("Sender's email address"),
+  company: z.string().nullish().transform(company => company || undefined).describe('Company name, if found'),
+  // An unknown zone is dropped rather than failing the analysis; the rep's zone is used instead
+  timezone: z.string().nullish().transform(timeZone => timeZone && isValidTimeZone(timeZone) ? timeZone : undefined)
+    .describe("Sender's IANA timezone (e.g. America/New_York) if they state it or it is clear from their location, else null")
+});
+
+export const EMAIL_INTENTS = [
+  'demo_request', 'reschedule', 'cancellation', 'pricing', 'partnership', 'support', 'other'
+] as const;
+
+// Intents answered with proposed slots
+export const SLOT_INTENTS: ReadonlyArray<typeof EMAIL_INTENTS[number]> = ['demo_request', 'reschedule'];
+
+export const demoAnalysisSchema = z.object({
+  intent: z.enum(EMAIL_INTENTS).describe('What the sender wants'),
+  urgency: z.enum(['low', 'medium', 'high']),
+  confidence: z.number().min(0).max(1).describe('Confidence in the intent'),
+  contactInfo: contactInfoSchema,
+  emailResponse: z.string().describe('Professional email response text; only for demo_request and reschedule, empty otherwise'),
+  reasoning: z.string().describe('Explanation of the analysis and slot selection')
+}).superRefine((analysis, ctx) => {
+  if (SLOT_INTENTS.includes(analysis.intent) && !analysis.emailResponse.trim()) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['emailResponse'], message: `is required for ${analysis.intent}` });
+  }
+});
+
+export const replyAnalysisSchema = z.object({
+  shouldCreateEvent: z.boolean(),
+  selectedTimeSlot: z.object({
+    start: isoDateTime,
+    end: isoDateTime
+  }).nullable().describe('The accepted proposed slot, with start and end copied exactly, or null'),
+  reason: z.string().describe('Explanation of the decision')
+}).superRefine((analysis, ctx) => {
+  if (analysis.shouldCreateEvent && !analysis.selectedTimeSlot) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['selectedTimeSlot'], message: 'is required when shouldCreateEvent is true' });
+  }
+  const slot = analysis.selectedTimeSlot;
+  if (slot && Date.parse(slot.end) <= Date.parse(slot.start)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['selectedTimeSlot', 'end'], message: 'must be after start' });
+  }
+});
+
+export const alternativeSlotsReplySchema = z.object({
+  emailResponse: z.string().min(1).describe('The reply text')
+});
+
+export type DemoAnalysisOutput = z.output<typeof demoAnalysisSchema>;
+export type ReplyAnalysisOutput = z.output<typeof replyAnalysisSchema>;
+export type AlternativeSlotsReplyOutput = z.output<typeof alternativeSlotsReplySchema>;
@@ -0,0 +1,48 @@
+import { CalendarToolName, LLMToolDefinition, LLMUsagePurpose } from '@/types';
+
+/**
+ * Calendar tools each AI flow may call. Flows that read an inbound email only get read-only
+ * tools; flows that are not listed get none.
+ */
+export const TOOL_ALLOWLIST: Partial<Record<LLMUsagePurpose, CalendarToolName[]>> = {
+  email_analysis: ['find_available_slots', 'get_calendar_events'],
+  create_event: ['create_calendar_event']
+};
+
+export interface ToolPolicyContext {
+  senderEmail?: string; // the only attendee an event may invite
+}
+
+export function isToolAllowed(flow: LLMUsagePurpose, name: string): boolean {
+  return (TOOL_ALLOWLIST[flow] || []).some(tool => tool === name);
+}
+
+/**
+ * The flow's tools out of the full tool list
+ */
+export function allowedTools(flow: LLMUsagePurpose, tools: LLMToolDefinition[]): LLMToolDefinition[] {
+  return tools.filter(tool => isToolAllowed(flow, tool.name));
+}
+
+/**
+ * Why a tool call may not run in the flow, or null when it may
+ */
+export function checkToolCall(
+  flow: LLMUsagePurpose,
+  name: string,
+  args: Record<string, any> | null,
+  context: ToolPolicyContext = {}
+): string | null {
+  if (!isToolAllowed(flow, name)) {
+    return `${name} is not allowed in ${flow}`;
+  }
+
+  if (name === 'create_calendar_event' && args?.attendeeEmail) {
+    const attendee = String(args.attendeeEmail).trim().toLowerCase();
+    if (!context.senderEmail || attendee !== context.senderEmail.trim().toLowerCase()) {
+      return `attendee ${args.attendeeEmail} is not the sender of the email`;
+    }
+  }
+
+  return null;
+}
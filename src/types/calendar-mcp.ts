@@ -1,6 +1,7 @@
 // Calendar MCP Service types
 
 import { CalendarEvent, EventDateTime } from './index';
+import { JobTimePreferences } from './jobs';
 
 export interface CalendarQuery {
   timeMin?: Date;
@@ -27,10 +28,47 @@ export interface FindAvailableSlotsParams {
   timeMin: string;
   timeMax: string;
   duration?: number;
-  businessHoursStart?: string;
-  businessHoursEnd?: string;
-  workingDays?: number[];
-  maxResults?: number;
+  // Prospect's stated preferences, used to rank the free slots
+  preferences?: JobTimePreferences;
+}
+
+// Wall-clock interval in the user's timezone
+export interface TimeInterval {
+  start: string; // "HH:MM"
+  end: string; // "HH:MM"
+}
+
+// Working intervals keyed by weekday (0=Sunday, 6=Saturday); missing/empty = not working
+export type WeeklyHours = Record<number, TimeInterval[]>;
+
+export interface AvailabilityOverrideRule {
+  id?: string;
+  startDate: string; // "YYYY-MM-DD", inclusive
+  endDate: string; // "YYYY-MM-DD", inclusive
+  type: 'UNAVAILABLE' | 'EXTRA_HOURS';
+  intervals: TimeInterval[]; // empty UNAVAILABLE = whole day
+  reason?: string | null;
+}
+
+// How proposed slots are spread out (see utils/slotRanker)
+export interface SlotSelectionPolicy {
+  slotCount: number; // slots to propose
+  maxSlotsPerDay: number; // only reached once every day with a free slot has one
+  minGapMinutes: number; // free time required between two proposed slots
+}
+
+// Per-user scheduling rules applied by find_available_slots (never taken from tool-call arguments)
+export interface AvailabilityRules {
+  timezone: string;
+  weeklyHours: WeeklyHours;
+  overrides: AvailabilityOverrideRule[];
+  meetingDuration: number; // minutes
+  bufferTime: number; // minutes kept free around busy blocks
+  travelBufferTime: number; // minutes kept free around events with a physical location
+  minAdvanceNotice: number; // hours
+  maxLookaheadDays: number;
+  slotIncrement: number; // minutes between candidate slot starts
+  slotSelection: SlotSelectionPolicy;
 }
 
 export interface GetCalendarEventsParams {
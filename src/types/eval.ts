@@ -0,0 +1,116 @@
+// Types for the offline evaluation of the email-to-reply pipeline (src/eval, scripts/eval-pipeline.ts)
+
+import { InboundIntent } from './index';
+
+// Local time range in the calendar owner's timezone, relative to the date the run starts
+export interface EvalTimeRange {
+  day?: number; // Nth working day after the run date (1 = next working day)
+  weekday?: number; // any date on this weekday, 0 = Sunday (slot windows only)
+  start: string; // "HH:MM"
+  end: string; // "HH:MM"
+}
+
+export interface EvalBusyBlock extends EvalTimeRange {
+  day: number;
+  summary?: string;
+  location?: string; // a physical location gets the travel buffer
+}
+
+// Calendar every case runs against; omitted rules fall back to the app defaults
+export interface EvalCalendarSpec {
+  timezone?: string;
+  weeklyHours?: Record<number, Array<{ start: string; end: string }>>;
+  meetingDuration?: number;
+  bufferTime?: number;
+  travelBufferTime?: number;
+  minAdvanceNotice?: number;
+  maxLookaheadDays?: number;
+  slotCount?: number;
+  busy?: EvalBusyBlock[];
+}
+
+export interface EvalOwnerSpec {
+  salesName: string;
+  salesEmail: string;
+  companyName: string;
+}
+
+export interface EvalExpectation {
+  intent: InboundIntent;
+  contact?: { name?: string; email?: string; company?: string | null };
+  slotWindows?: EvalTimeRange[]; // every proposed slot must fall inside one of these
+}
+
+export interface EvalCase {
+  id: string;
+  email?: { from: string; to?: string; subject: string; body: string };
+  eml?: string; // path to an .eml file, relative to the corpus file
+  expected: EvalExpectation;
+}
+
+export interface EvalCorpus {
+  name: string;
+  calendar: EvalCalendarSpec;
+  owner?: EvalOwnerSpec;
+  cases: EvalCase[];
+}
+
+export interface EvalSlotResult {
+  start: string;
+  end: string;
+  inWindow: boolean | null; // null when the case has no slot windows
+  violations: string[]; // scheduling rules the slot breaks
+}
+
+export interface EvalCaseResult {
+  id: string;
+  expectedIntent: InboundIntent;
+  intent: InboundIntent | null; // null when the analysis failed
+  confidence: number | null;
+  contact: { name?: string; email?: string; company?: string } | null;
+  contactMatches: { name?: boolean; email?: boolean; company?: boolean };
+  expectsSlots: boolean; // the case has slot windows
+  slots: EvalSlotResult[];
+  calendarWrites: number; // events the model created during the analysis (should be 0)
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  error?: string;
+}
+
+export interface EvalIntentScore {
+  precision: number | null; // null when the intent was never predicted
+  recall: number | null; // null when no case expects the intent
+  f1: number | null;
+  support: number; // cases expecting the intent
+}
+
+export interface EvalMetrics {
+  cases: number;
+  errors: number;
+  intentAccuracy: number;
+  intents: Partial<Record<InboundIntent, EvalIntentScore>>;
+  extraction: { name: number | null; email: number | null; company: number | null }; // accuracy over labeled cases
+  slots: {
+    proposed: number;
+    inWindow: number | null; // share of slots inside the expected windows, over cases that have windows
+    violations: number;
+    casesWithViolations: number;
+    casesMissingSlots: number; // cases with slot windows but no slots proposed
+  };
+  calendarWrites: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  avgLatencyMs: number;
+}
+
+export interface EvalRunResult {
+  corpus: string;
+  startedAt: string;
+  provider: string;
+  model: string;
+  promptVersion: string; // "built-in", or the template file evaluated
+  metrics: EvalMetrics;
+  cases: EvalCaseResult[];
+}
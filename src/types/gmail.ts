@@ -20,4 +20,20 @@ export interface GmailMessageListResponse {
   messages: any[];
   nextPageToken?: string;
   resultSizeEstimate: number;
-}
\ No newline at end of file
+}
+
+export interface GmailHistoryListResponse {
+  messageIds: string[];
+  historyId: string;
+}
+
+export interface GmailWatchResponse {
+  historyId: string;
+  expiration: Date;
+}
+
+// Payload of a Gmail push notification (decoded Pub/Sub message data)
+export interface GmailPushNotification {
+  emailAddress: string;
+  historyId: string;
+}
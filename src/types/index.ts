@@ -6,6 +6,9 @@ export * from './calendar-mcp';
 export * from './validation';
 export * from './repository';
 export * from './jobs';
+export * from './llm';
+
+import { AgentLoopConfig, LLMConfig } from './llm';
 
 export interface EmailMessage {
   id: string;
@@ -19,6 +22,12 @@ export interface EmailMessage {
   isDemoRequest?: boolean;
 }
 
+// Messages fetched by ID; deleted ones are left out, other failures are listed in failedIds
+export interface EmailMessageBatch {
+  emails: EmailMessage[];
+  failedIds: string[];
+}
+
 export interface ParsedEmail {
   message: EmailMessage;
   intent: EmailIntent;
@@ -30,7 +39,7 @@ export interface ParsedEmail {
 export interface EmailIntent {
   isDemoRequest: boolean;
   confidence: number;
-  intentType: 'demo' | 'meeting' | 'call' | 'presentation' | 'unknown';
+  intentType: InboundIntent;
   urgency: 'low' | 'medium' | 'high';
   keywords: string[];
 }
@@ -90,6 +99,8 @@ export interface TimeSlot {
   start: Date;
   end: Date;
   timezone: string;
+  startLocal?: string; // ISO 8601 in `timezone` with explicit offset
+  endLocal?: string;
 }
 
 export interface AvailabilitySlot extends TimeSlot {
@@ -142,6 +153,7 @@ export interface BusinessRules {
   travelBufferTime: number;
   maxLookaheadDays: number;
   minAdvanceNotice: number;
+  slotIncrement: number;
   timezone: string;
 }
 
@@ -155,6 +167,12 @@ export interface AppConfig {
     apiKey: string;
     model: string;
   };
+  llm: LLMConfig;
+  agent: AgentLoopConfig;
+  gmailPush: {
+    topicName?: string;
+    verificationToken?: string;
+  };
   monitoring: {
     checkIntervalMinutes: number;
     maxEmailsPerCheck: number;
@@ -162,6 +180,7 @@ export interface AppConfig {
     retryDelayMs: number;
   };
   businessRules: BusinessRules;
+  intentRoutes: IntentRoutingTable;
 }
 
 
@@ -195,18 +214,34 @@ export enum ProcessingStatus {
 }
 
 
+// Intents the email analysis classifies into, and the actions the routing table maps them to
+export type InboundIntent = 'demo_request' | 'reschedule' | 'cancellation' | 'pricing' | 'partnership' | 'support' | 'other';
+export type IntentRouteAction = 'schedule' | 'reschedule' | 'cancel' | 'forward' | 'ignore';
+export type IntentRoutingTable = Record<InboundIntent, IntentRouteAction>;
+
 // MCP-specific Types
 export interface MCPAnalysisResult {
   isDemoRequest: boolean;
+  intent: InboundIntent;
+  urgency: 'low' | 'medium' | 'high';
   confidence: number;
   contactInfo: ContactInfo;
   proposedTimeSlots: Array<{
-    start: string;
-    end: string;
+    start: Date;
+    end: Date;
     formatted: string;
   }>;
   emailResponse: string;
+  unsignedResponse: string; // emailResponse before the signature is appended; what the guardrail checks
   reasoning: string;
+  injectionSignals: string[]; // possible prompt injection in the email or blocked tool calls (promptSafety)
+  prospectTimeZone: string; // zone the slots are shown in to the sender; the rep's when unknown
+}
+
+export interface ReplyAnalysisResult {
+  shouldCreateEvent: boolean;
+  selectedTimeSlot?: { start: Date; end: Date }; // always one of the proposed slots
+  reason?: string;
 }
 
 export interface MCPToolCall {
@@ -214,6 +249,30 @@ export interface MCPToolCall {
   parameters: Record<string, any>;
 }
 
+// Reply style learned from the user's edits to earlier drafts (ReplyStyleService)
+export interface ReplyStyleGuidance {
+  prompt: string; // style instructions and before/after examples for the system prompt
+  signOff: string | null; // replaces the closing line of the signature
+}
+
+// Kinds of personal data replaced with placeholders before email content reaches the model
+export type PiiCategory = 'email' | 'phone' | 'card' | 'bank_account' | 'national_id' | 'address';
+
+export type PiiRedactionCounts = Partial<Record<PiiCategory, number>>;
+
+// Checks run on a generated reply before it is queued (ReplyGuardrailService)
+export interface ReplyValidationIssue {
+  check: 'slot_time' | 'weekday' | 'slot_coverage' | 'banned_phrase';
+  message: string;
+}
+
+export interface ReplyValidationReport {
+  passed: boolean;
+  issues: ReplyValidationIssue[];
+  timeZone: string; // zone the reply's times were read in
+  validatedAt: string; // ISO timestamp
+}
+
 
 
 // Utility Types
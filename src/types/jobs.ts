@@ -1,5 +1,7 @@
 // Job-specific types for background processing
 
+import { InboundIntent } from './index';
+
 // Email Processing Job types
 export interface JobStatus {
   isRunning: boolean;
@@ -47,7 +49,7 @@ export interface JobIntentAnalysis {
   isDemoRequest: boolean;
   confidence: number;
   reasoning: string;
-  intentType: 'demo' | 'meeting' | 'call' | 'presentation' | 'unknown';
+  intentType: InboundIntent;
   urgency: 'low' | 'medium' | 'high';
   keywords: string[];
 }
@@ -97,4 +99,22 @@ export interface ResponseSenderJobConfig {
   maxResponsesPerCheck: number;
   retryAttempts: number;
   retryDelayMs: number;
-}
\ No newline at end of file
+}
+// Durable job queue types (background_jobs table)
+export type JobRetryPolicy = Pick<EmailProcessingJobConfig, 'retryAttempts' | 'retryDelayMs'>;
+
+export interface SyncUserEmailsPayload {
+  userId: string;
+}
+
+export interface SendScheduledResponsePayload {
+  scheduledResponseId: string;
+}
+
+export interface JobQueueStats {
+  queued: number;
+  running: number;
+  succeeded: number;
+  failed: number;
+  dead: number;
+}
@@ -0,0 +1,112 @@
+// Provider-neutral chat types used by the LLM provider layer (src/services/llm)
+
+export type LLMProviderName = 'openai' | 'anthropic' | 'openai-compatible' | 'scripted';
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: string; // JSON-encoded arguments
+}
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null;
+  toolCalls?: LLMToolCall[]; // assistant messages only
+  toolCallId?: string; // tool messages only: the call this is the result of
+}
+
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, any>; // JSON schema
+}
+
+export interface LLMChatRequest {
+  messages: LLMMessage[];
+  tools?: LLMToolDefinition[];
+  toolChoice?: 'auto' | 'none' | { name: string };
+  responseFormat?: 'text' | 'json';
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMChatResponse {
+  message: LLMMessage;
+  model: string;
+  finishReason?: string;
+  usage?: LLMUsage;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  chat(request: LLMChatRequest): Promise<LLMChatResponse>;
+}
+
+export interface LLMConfig {
+  provider: LLMProviderName;
+  anthropic: {
+    apiKey?: string;
+    model: string;
+  };
+  openaiCompatible: {
+    baseUrl: string;
+    apiKey?: string;
+    model: string;
+  };
+  scriptPath?: string; // JSON fixture for the scripted provider
+  pricing: LLMPriceTable;
+  monthlyBudgetUsd?: number; // default per-user AI budget; unset = unlimited
+}
+
+// USD per million tokens, keyed by model name or model name prefix
+export type LLMPriceTable = Record<string, { input: number; output: number }>;
+
+// What a chat completion was made for, recorded with its token usage
+export type LLMUsagePurpose = 'email_analysis' | 'reply_analysis' | 'alternative_slots_reply' | 'create_event' | 'connection_test';
+
+// Calendar tools the model can be given (CalendarService.getMCPTools)
+export type CalendarToolName = 'find_available_slots' | 'get_calendar_events' | 'create_calendar_event';
+
+// Limits for the multi-round tool loop in email analysis
+export interface AgentLoopConfig {
+  maxToolSteps: number; // tool calls allowed per analysis before a final answer is forced
+  stepTimeoutMs: number; // per tool call
+  deadlineMs: number; // whole analysis, including retries
+}
+
+// One tool call made by the model during analysis, persisted for inspection
+export interface AgentToolStep {
+  attempt: number; // retry attempt of the analysis (1-based)
+  round: number; // model round that requested the call (1-based)
+  toolName: string;
+  arguments: Record<string, any> | null; // null when the model sent unparseable arguments
+  result?: any;
+  error?: string;
+  latencyMs: number;
+  startedAt: Date;
+}
+
+export type AiAnalysisKind = 'email_analysis' | 'reply_analysis';
+
+// Outcome and cost of one analysis call (all of its model rounds), persisted as an audit record
+export interface AiAnalysisTrace {
+  kind: AiAnalysisKind;
+  intent: string | null; // null when the call failed
+  confidence: number | null;
+  reasoning: string | null;
+  error?: string;
+  provider: LLMProviderName;
+  model: string;
+  promptTemplateId: string | null;
+  promptVersion: number; // 0 = built-in prompt
+  inputTokens: number;
+  outputTokens: number;
+  modelCalls: number;
+  latencyMs: number;
+}
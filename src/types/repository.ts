@@ -1,6 +1,6 @@
 // Repository-specific types and data transfer objects
 
-import { ProcessingStatus, EmailDirection } from '@prisma/client';
+import { ProcessingStatus, EmailDirection, EmailIntent, IntentAction } from '@prisma/client';
 import { User, GoogleTokens } from '@prisma/client';
 
 // Email Repository types
@@ -28,6 +28,13 @@ export interface UpdateEmailData {
   timePreferences?: any;
   contactInfo?: any;
   errorMessage?: string | null;
+  pendingReason?: string | null;
+  flaggedForReview?: boolean;
+  suspectedInjection?: boolean;
+  injectionSignals?: string[];
+  intent?: EmailIntent;
+  urgency?: string;
+  intentAction?: IntentAction;
 }
 
 export interface EmailSearchOptions {
@@ -35,6 +42,7 @@ export interface EmailSearchOptions {
   processingStatus?: ProcessingStatus;
   direction?: EmailDirection;
   isDemoRequest?: boolean;
+  intent?: EmailIntent;
   responseGenerated?: boolean;
   responseSent?: boolean;
   startDate?: Date;
@@ -91,6 +99,19 @@ export interface UpdateUserData {
   timezone?: string;
   meetingDuration?: number;
   bufferTime?: number;
+  proposedSlotCount?: number;
+  maxSlotsPerDay?: number;
+  minSlotGapMinutes?: number;
+  holdProposedSlots?: boolean;
+  holdTtlHours?: number;
+  llmProvider?: string | null;
+  llmModel?: string | null;
+  monthlyAiBudgetUsd?: number | null;
+  autoSendMinConfidence?: number;
+  draftMinConfidence?: number;
+  piiRedactionCategories?: string[];
+  bannedReplyPhrases?: string[];
+  locale?: string;
 }
 
 export interface UserWithTokens extends User {
@@ -101,6 +101,19 @@ export interface UpdateUserData {
   timezone?: string;
   meetingDuration?: number;
   bufferTime?: number;
+  proposedSlotCount?: number;
+  maxSlotsPerDay?: number;
+  minSlotGapMinutes?: number;
+  holdProposedSlots?: boolean;
+  holdTtlHours?: number;
+  llmProvider?: string | null;
+  llmModel?: string | null;
+  monthlyAiBudgetUsd?: number | null;
+  autoSendMinConfidence?: number;
+  draftMinConfidence?: number;
+  piiRedactionCategories?: string[];
+  bannedReplyPhrases?: string[];
+  locale?: string;
 }
 
 export interface GoogleTokensData {
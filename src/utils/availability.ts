@@ -0,0 +1,119 @@
+import { AvailabilityOverrideRule, AvailabilityRules, TimeInterval, WeeklyHours } from '@/types';
+import { parseTimeOfDay } from './timezone';
+
+/**
+ * Weekly hours + dated overrides → concrete working intervals for a local date
+ */
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+type MinuteRange = [number, number];
+
+function toMinutes(time: string): number {
+  const { hour, minute } = parseTimeOfDay(time);
+  return hour * 60 + minute;
+}
+
+function toTime(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+function mergeRanges(ranges: MinuteRange[]): MinuteRange[] {
+  const sorted = ranges.filter(([start, end]) => end > start).sort((a, b) => a[0] - b[0]);
+  const merged: MinuteRange[] = [];
+
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], range[1]]);
+    }
+  }
+
+  return merged;
+}
+
+function subtractRanges(ranges: MinuteRange[], blocked: MinuteRange[]): MinuteRange[] {
+  return blocked.reduce<MinuteRange[]>((remaining, [blockStart, blockEnd]) =>
+    remaining.flatMap(([start, end]): MinuteRange[] => {
+      if (blockEnd <= start || blockStart >= end) {
+        return [[start, end]];
+      }
+      const pieces: MinuteRange[] = [];
+      if (blockStart > start) pieces.push([start, blockStart]);
+      if (blockEnd < end) pieces.push([blockEnd, end]);
+      return pieces;
+    }), ranges);
+}
+
+const toRanges = (intervals: TimeInterval[]): MinuteRange[] =>
+  intervals.map(interval => [toMinutes(interval.start), toMinutes(interval.end)]);
+
+export function formatLocalDate(date: { year: number; month: number; day: number }): string {
+  return `${date.year}-${String(date.month).padStart(2, '0')}-${String(date.day).padStart(2, '0')}`;
+}
+
+/**
+ * Weekly hours from the legacy single business-hours pair and working days
+ */
+export function weeklyHoursFromBusinessHours(start: string, end: string, workingDays: number[]): WeeklyHours {
+  const weeklyHours: WeeklyHours = {};
+  for (const weekday of workingDays) {
+    weeklyHours[weekday] = [{ start, end }];
+  }
+  return weeklyHours;
+}
+
+export function overridesForDate(overrides: AvailabilityOverrideRule[], localDate: string): AvailabilityOverrideRule[] {
+  return overrides.filter(override => override.startDate <= localDate && localDate <= override.endDate);
+}
+
+/**
+ * Working intervals for one local date: the weekday's hours, plus EXTRA_HOURS overrides,
+ * minus UNAVAILABLE overrides (an UNAVAILABLE override without intervals blocks the whole day)
+ */
+export function getWorkingIntervals(
+  rules: Pick<AvailabilityRules, 'weeklyHours' | 'overrides'>,
+  date: { year: number; month: number; day: number; weekday: number }
+): TimeInterval[] {
+  const matching = overridesForDate(rules.overrides, formatLocalDate(date));
+
+  let ranges = toRanges(rules.weeklyHours[date.weekday] || []);
+
+  for (const override of matching.filter(o => o.type === 'EXTRA_HOURS')) {
+    ranges = ranges.concat(toRanges(override.intervals));
+  }
+  ranges = mergeRanges(ranges);
+
+  for (const override of matching.filter(o => o.type === 'UNAVAILABLE')) {
+    ranges = override.intervals.length === 0
+      ? []
+      : subtractRanges(ranges, toRanges(override.intervals));
+  }
+
+  return ranges.map(([start, end]) => ({ start: toTime(start), end: toTime(end) }));
+}
+
+/**
+ * Human-readable summary, e.g. "Mon 10:00-12:00, 13:00-17:00; Fri 09:00-13:00"
+ */
+export function describeWeeklyHours(weeklyHours: WeeklyHours): string {
+  const days = [1, 2, 3, 4, 5, 6, 0]
+    .filter(weekday => (weeklyHours[weekday] || []).length > 0)
+    .map(weekday => `${WEEKDAY_NAMES[weekday]} ${weeklyHours[weekday].map(i => `${i.start}-${i.end}`).join(', ')}`);
+
+  return days.length > 0 ? days.join('; ') : 'no working hours configured';
+}
+
+export function describeOverride(override: AvailabilityOverrideRule): string {
+  const dates = override.startDate === override.endDate
+    ? override.startDate
+    : `${override.startDate} to ${override.endDate}`;
+  const hours = override.intervals.map(i => `${i.start}-${i.end}`).join(', ');
+
+  if (override.type === 'EXTRA_HOURS') {
+    return `${dates}: extra hours ${hours}`;
+  }
+  return hours ? `${dates}: unavailable ${hours}` : `${dates}: unavailable all day`;
+}
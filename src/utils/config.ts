@@ -1,13 +1,13 @@
-import { AppConfig, BusinessRules } from '@/types';
+import { AgentLoopConfig, AppConfig, BusinessRules, IntentRouteAction, IntentRoutingTable, LLMConfig, LLMPriceTable, LLMProviderName } from '@/types';
 import dotenv from 'dotenv';
 import path from 'path';
 
 dotenv.config();
 
+// Provider API keys are checked in validateConfig, only for the provider in use
 const requiredEnvVars = [
   'GOOGLE_CLIENT_ID',
-  'GOOGLE_CLIENT_SECRET',
-  'OPENAI_API_KEY'
+  'GOOGLE_CLIENT_SECRET'
 ] as const;
 
 const validateRequiredEnvVars = (): void => {
@@ -21,6 +21,82 @@ const validateRequiredEnvVars = (): void => {
   }
 };
 
+// USD per million tokens; LLM_PRICING entries are merged over these
+const DEFAULT_LLM_PRICING: LLMPriceTable = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'scripted': { input: 0, output: 0 }
+};
+
+const parseLLMPricing = (): LLMPriceTable => {
+  if (!process.env.LLM_PRICING) {
+    return DEFAULT_LLM_PRICING;
+  }
+
+  try {
+    return { ...DEFAULT_LLM_PRICING, ...JSON.parse(process.env.LLM_PRICING) };
+  } catch {
+    throw new Error('LLM_PRICING must be a JSON object like {"model-name": {"input": 2.5, "output": 10}}');
+  }
+};
+
+// What the email pipeline does with each classified intent; INTENT_ROUTES entries are merged over these
+const DEFAULT_INTENT_ROUTES: IntentRoutingTable = {
+  demo_request: 'schedule',
+  reschedule: 'reschedule',
+  cancellation: 'cancel',
+  pricing: 'forward',
+  partnership: 'forward',
+  support: 'forward',
+  other: 'ignore'
+};
+
+const INTENT_ROUTE_ACTIONS: IntentRouteAction[] = ['schedule', 'reschedule', 'cancel', 'forward', 'ignore'];
+
+const parseIntentRoutes = (): IntentRoutingTable => {
+  if (!process.env.INTENT_ROUTES) {
+    return DEFAULT_INTENT_ROUTES;
+  }
+
+  try {
+    return { ...DEFAULT_INTENT_ROUTES, ...JSON.parse(process.env.INTENT_ROUTES) };
+  } catch {
+    throw new Error('INTENT_ROUTES must be a JSON object like {"pricing": "ignore"}');
+  }
+};
+
+const parseLLMConfig = (): LLMConfig => {
+  return {
+    provider: (process.env.LLM_PROVIDER || 'openai') as LLMProviderName,
+    anthropic: {
+      apiKey: process.env.ANTHROPIC_API_KEY,
+      model: process.env.ANTHROPIC_MODEL || 'claude-3-5-sonnet-latest'
+    },
+    openaiCompatible: {
+      baseUrl: process.env.LLM_BASE_URL || 'http://localhost:11434/v1',
+      apiKey: process.env.LLM_API_KEY,
+      model: process.env.LLM_MODEL || 'llama3.1'
+    },
+    scriptPath: process.env.LLM_SCRIPT_PATH,
+    pricing: parseLLMPricing(),
+    monthlyBudgetUsd: process.env.AI_MONTHLY_BUDGET_USD ? parseFloat(process.env.AI_MONTHLY_BUDGET_USD) : undefined
+  };
+};
+
+const parseAgentLoopConfig = (): AgentLoopConfig => {
+  return {
+    maxToolSteps: parseInt(process.env.AI_MAX_TOOL_STEPS || '6'),
+    stepTimeoutMs: parseInt(process.env.AI_STEP_TIMEOUT_MS || '20000'),
+    deadlineMs: parseInt(process.env.AI_ANALYSIS_DEADLINE_MS || '120000')
+  };
+};
+
 const parseBusinessRules = (): BusinessRules => {
   return {
     businessHours: {
@@ -33,6 +109,7 @@ const parseBusinessRules = (): BusinessRules => {
     travelBufferTime: parseInt(process.env.TRAVEL_BUFFER_TIME_MINUTES || '60'),
     maxLookaheadDays: parseInt(process.env.MAX_LOOKAHEAD_DAYS || '5'),
     minAdvanceNotice: parseInt(process.env.MIN_ADVANCE_NOTICE_HOURS || '2'),
+    slotIncrement: parseInt(process.env.SLOT_INCREMENT_MINUTES || '30'),
     timezone: process.env.DEFAULT_TIMEZONE || 'America/Los_Angeles'
   };
 };
@@ -47,16 +124,23 @@ export const createAppConfig = (): AppConfig => {
       redirectUri: process.env.GOOGLE_REDIRECT_URI || 'http://localhost:3000/auth/callback'
     },
     openai: {
-      apiKey: process.env.OPENAI_API_KEY!,
+      apiKey: process.env.OPENAI_API_KEY || '',
       model: process.env.OPENAI_MODEL || 'gpt-4o'
     },
+    llm: parseLLMConfig(),
+    agent: parseAgentLoopConfig(),
+    gmailPush: {
+      topicName: process.env.GMAIL_PUBSUB_TOPIC,
+      verificationToken: process.env.GMAIL_PUSH_VERIFICATION_TOKEN
+    },
     monitoring: {
       checkIntervalMinutes: parseInt(process.env.CHECK_INTERVAL_MINUTES || '5'),
       maxEmailsPerCheck: parseInt(process.env.MAX_EMAILS_PER_CHECK || '10'),
       retryAttempts: parseInt(process.env.RETRY_ATTEMPTS || '3'),
       retryDelayMs: parseInt(process.env.RETRY_DELAY_MS || '1000')
     },
-    businessRules: parseBusinessRules()
+    businessRules: parseBusinessRules(),
+    intentRoutes: parseIntentRoutes()
   };
 };
 
@@ -85,9 +169,64 @@ export const validateConfig = (): { isValid: boolean; errors: string[] } => {
     errors.push('Meeting duration must be between 15 and 240 minutes');
   }
 
+  if (config.businessRules.slotIncrement < 5 || config.businessRules.slotIncrement > 240) {
+    errors.push('Slot increment must be between 5 and 240 minutes');
+  }
+
+  if (config.agent.maxToolSteps < 1 || config.agent.maxToolSteps > 20) {
+    errors.push('AI_MAX_TOOL_STEPS must be between 1 and 20');
+  }
+
+  if (config.agent.stepTimeoutMs <= 0 || config.agent.stepTimeoutMs > config.agent.deadlineMs) {
+    errors.push('AI_STEP_TIMEOUT_MS must be positive and no longer than AI_ANALYSIS_DEADLINE_MS');
+  }
+
+  const invalidPrices = Object.entries(config.llm.pricing)
+    .filter(([, price]) => !(price?.input >= 0) || !(price?.output >= 0))
+    .map(([model]) => model);
+  if (invalidPrices.length > 0) {
+    errors.push(`LLM_PRICING needs non-negative input and output prices for: ${invalidPrices.join(', ')}`);
+  }
+
+  const budget = config.llm.monthlyBudgetUsd;
+  if (budget !== undefined && !(budget >= 0)) {
+    errors.push('AI_MONTHLY_BUDGET_USD must be a non-negative number');
+  }
+
+  if (config.gmailPush.topicName && !config.gmailPush.verificationToken) {
+    errors.push('GMAIL_PUSH_VERIFICATION_TOKEN is required when GMAIL_PUBSUB_TOPIC is set');
+  }
+
+  const invalidRoutes = Object.entries(config.intentRoutes)
+    .filter(([intent, action]) => !(intent in DEFAULT_INTENT_ROUTES) || !INTENT_ROUTE_ACTIONS.includes(action))
+    .map(([intent, action]) => `${intent}: ${action}`);
+  if (invalidRoutes.length > 0) {
+    errors.push(`INTENT_ROUTES has unknown intents or actions (expected ${INTENT_ROUTE_ACTIONS.join(', ')}): ${invalidRoutes.join(', ')}`);
+  }
 
-  if (!config.openai.apiKey.startsWith('sk-')) {
-    errors.push('OpenAI API key should start with "sk-"');
+  switch (config.llm.provider) {
+    case 'openai':
+      if (!config.openai.apiKey) {
+        errors.push('OPENAI_API_KEY is required when LLM_PROVIDER is "openai"');
+      }
+      break;
+    case 'anthropic':
+      if (!config.llm.anthropic.apiKey) {
+        errors.push('ANTHROPIC_API_KEY is required when LLM_PROVIDER is "anthropic"');
+      }
+      break;
+    case 'openai-compatible':
+      if (!config.llm.openaiCompatible.baseUrl) {
+        errors.push('LLM_BASE_URL is required when LLM_PROVIDER is "openai-compatible"');
+      }
+      break;
+    case 'scripted':
+      if (!config.llm.scriptPath) {
+        errors.push('LLM_SCRIPT_PATH is required when LLM_PROVIDER is "scripted"');
+      }
+      break;
+    default:
+      errors.push(`Unknown LLM_PROVIDER "${config.llm.provider}" (expected openai, anthropic, openai-compatible or scripted)`);
   }
 
   return {
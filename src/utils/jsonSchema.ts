@@ -0,0 +1,69 @@
+import { z } from 'zod';
+
+/**
+ * JSON schema for a zod schema, so the shape we validate AI output against is the same
+ * shape we describe to the model. Covers the zod types used by the AI output schemas;
+ * refinements are validated by zod but cannot be expressed here.
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): Record<string, any> {
+  const jsonSchema = convert(schema);
+  return schema.description ? { description: schema.description, ...jsonSchema } : jsonSchema;
+}
+
+function convert(schema: z.ZodTypeAny): Record<string, any> {
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const required = Object.keys(shape).filter(key => !shape[key].isOptional());
+
+    return {
+      type: 'object',
+      properties: Object.fromEntries(
+        Object.entries(shape).map(([key, value]) => [key, zodToJsonSchema(value)])
+      ),
+      ...(required.length > 0 ? { required } : {})
+    };
+  }
+
+  if (schema instanceof z.ZodString) {
+    return { type: 'string' };
+  }
+
+  if (schema instanceof z.ZodNumber) {
+    const { minValue, maxValue } = schema;
+    return {
+      type: schema.isInt ? 'integer' : 'number',
+      ...(minValue !== null ? { minimum: minValue } : {}),
+      ...(maxValue !== null ? { maximum: maxValue } : {})
+    };
+  }
+
+  if (schema instanceof z.ZodBoolean) {
+    return { type: 'boolean' };
+  }
+
+  if (schema instanceof z.ZodEnum) {
+    return { type: 'string', enum: schema.options };
+  }
+
+  if (schema instanceof z.ZodArray) {
+    return { type: 'array', items: zodToJsonSchema(schema.element) };
+  }
+
+  if (schema instanceof z.ZodNullable) {
+    return { anyOf: [zodToJsonSchema(schema.unwrap()), { type: 'null' }] };
+  }
+
+  if (schema instanceof z.ZodOptional) {
+    return zodToJsonSchema(schema.unwrap());
+  }
+
+  if (schema instanceof z.ZodDefault) {
+    return zodToJsonSchema(schema.removeDefault());
+  }
+
+  if (schema instanceof z.ZodEffects) {
+    return zodToJsonSchema(schema.innerType());
+  }
+
+  throw new Error(`zodToJsonSchema: unsupported zod type ${schema._def.typeName}`);
+}
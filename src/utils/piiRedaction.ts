@@ -0,0 +1,184 @@
+import { PiiCategory, PiiRedactionCounts } from '@/types';
+
+/**
+ * Replacing personal data in email content with stable placeholders ("[PHONE_1]") before it
+ * is sent to the model, and putting it back into generated text afterwards
+ */
+
+export const PII_CATEGORIES: PiiCategory[] = ['email', 'phone', 'card', 'bank_account', 'national_id', 'address'];
+
+// Redacted for users who haven't chosen; email addresses are kept so contacts can be extracted
+export const DEFAULT_PII_REDACTION: PiiCategory[] = ['phone', 'card', 'bank_account', 'national_id', 'address'];
+
+const PLACEHOLDER_LABELS: Record<PiiCategory, string> = {
+  email: 'EMAIL',
+  phone: 'PHONE',
+  card: 'CARD',
+  bank_account: 'ACCOUNT',
+  national_id: 'ID',
+  address: 'ADDRESS'
+};
+
+// Restored masked (last 4 characters only) so a reply never repeats them in full
+const MASKED_ON_RESTORE = new Set<PiiCategory>(['card', 'bank_account', 'national_id']);
+
+// Added to the system prompt of every flow that reads a redacted email
+export const PII_PLACEHOLDER_RULES = `
+Personal data in the email (phone numbers, card and account numbers, addresses, ...) may be replaced with placeholders such as [PHONE_1]. Copy a placeholder exactly where you need to refer to that value; never guess or invent the value behind it.
+`.trim();
+
+const PLACEHOLDER_PATTERN = /\[(EMAIL|PHONE|CARD|ACCOUNT|ID|ADDRESS)_\d+\]/g;
+
+interface PiiDetector {
+  category: PiiCategory;
+  pattern: RegExp; // a named group "value" limits the replacement to that part of the match
+  isValid?: (value: string) => boolean;
+}
+
+const digitCount = (value: string) => value.replace(/\D/g, '').length;
+
+// Numeric dates ("2025-09-16", "09-16-2025", "16.09.2025") have as many digits as a phone number
+const NUMERIC_DATE = /^(?:\d{4}[-/.]\d{1,2}[-/.]\d{1,2}|\d{1,2}[-/.]\d{1,2}[-/.]\d{2,4})(?!\d)/;
+
+// Card numbers pass the Luhn checksum, which rules out most order or ticket numbers
+function passesLuhn(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// Most specific first, so e.g. a card number isn't taken for a phone number
+const DETECTORS: PiiDetector[] = [
+  {
+    category: 'email',
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g
+  },
+  {
+    category: 'bank_account',
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g, // IBAN
+    isValid: value => digitCount(value) >= 8
+  },
+  {
+    category: 'bank_account',
+    pattern: /\b(?:account|acct|routing)(?:\s*(?:no\.?|number|#))?\s*[:#]?\s*(?<value>\d[\d -]{4,18}\d)\b/gi
+  },
+  {
+    category: 'card',
+    pattern: /\b(?:\d[ -]?){12,18}\d\b/g,
+    isValid: passesLuhn
+  },
+  {
+    category: 'national_id',
+    pattern: /\b(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}\b/g // US SSN
+  },
+  {
+    category: 'phone',
+    // Not followed by ":MM", so "2025-09-16 14:00" isn't read as a number ending in the hour
+    pattern: /(?<![\w+])(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?)?\d{2,4}(?:[ .-]\d{2,4}){1,4}\b(?!:\d)|\+\d{9,14}\b/g,
+    isValid: value => digitCount(value) >= 9 && digitCount(value) <= 15 && !NUMERIC_DATE.test(value)
+  },
+  {
+    category: 'address',
+    pattern: /\b\d{1,5}\s+(?:[A-Z][A-Za-z0-9.'-]*\s+){1,4}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Parkway|Pkwy|Highway|Hwy|Square|Sq)\b\.?(?:,?\s*(?:Suite|Ste|Apt|Unit|Floor|Fl)\.?\s*#?\w+)?/g
+  }
+];
+
+/**
+ * Redacts the enabled categories across all fields of one email. The same value always gets
+ * the same placeholder, so the model can still tell that two mentions are the same number.
+ */
+export class PiiRedactor {
+  private readonly categories: Set<PiiCategory>;
+  private readonly placeholders = new Map<string, string>(); // value -> placeholder
+  private readonly values = new Map<string, { category: PiiCategory; value: string }>(); // placeholder -> value
+  private readonly tally: PiiRedactionCounts = {};
+
+  constructor(categories: PiiCategory[]) {
+    this.categories = new Set(categories);
+  }
+
+  redact(text: string): string {
+    let redacted = text;
+    for (const detector of DETECTORS) {
+      if (!this.categories.has(detector.category)) {
+        continue;
+      }
+
+      redacted = redacted.replace(detector.pattern, (match, ...args) => {
+        const groups = args[args.length - 1];
+        const value: string = (typeof groups === 'object' && groups?.value) || match;
+        if (detector.isValid && !detector.isValid(value)) {
+          return match;
+        }
+        return match.replace(value, this.placeholderFor(detector.category, value));
+      });
+    }
+    return redacted;
+  }
+
+  /**
+   * Put the original values back into generated text; cards, account numbers and IDs come
+   * back masked
+   */
+  restore(text: string): string {
+    return text.replace(PLACEHOLDER_PATTERN, placeholder => {
+      const original = this.values.get(placeholder);
+      if (!original) {
+        return placeholder;
+      }
+      return MASKED_ON_RESTORE.has(original.category) ? this.mask(original.value) : original.value;
+    });
+  }
+
+  /**
+   * restore() applied to every string in an object, e.g. extracted contact info
+   */
+  restoreDeep<T>(value: T): T {
+    if (typeof value === 'string') {
+      return this.restore(value) as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.restoreDeep(item)) as T;
+    }
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.restoreDeep(item)])) as T;
+    }
+    return value;
+  }
+
+  // Occurrences replaced per category
+  get counts(): PiiRedactionCounts {
+    return { ...this.tally };
+  }
+
+  get total(): number {
+    return Object.values(this.tally).reduce((sum, count) => sum + (count || 0), 0);
+  }
+
+  private placeholderFor(category: PiiCategory, value: string): string {
+    this.tally[category] = (this.tally[category] || 0) + 1;
+
+    const key = `${category}:${category === 'email' ? value.toLowerCase() : value.replace(/[\s().-]/g, '')}`;
+    let placeholder = this.placeholders.get(key);
+    if (!placeholder) {
+      const index = Array.from(this.values.values()).filter(entry => entry.category === category).length + 1;
+      placeholder = `[${PLACEHOLDER_LABELS[category]}_${index}]`;
+      this.placeholders.set(key, placeholder);
+      this.values.set(placeholder, { category, value });
+    }
+    return placeholder;
+  }
+
+  private mask(value: string): string {
+    const visible = value.replace(/[\s-]/g, '').slice(-4);
+    return `****${visible}`;
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Server-side rendering of proposed slots for the prospect: the time in their timezone with
+ * the rep's alongside, e.g. "Tue, Oct 21, 10:00 AM PT / 1:00 PM ET". Reply bodies refer to
+ * slots with [[SLOT_n]] tokens that are replaced with these labels when the email is sent.
+ */
+
+export interface SlotFormatOptions {
+  recipientTimeZone: string; // prospect's zone, shown first
+  repTimeZone: string; // rep's zone, shown alongside when it differs
+  locale?: string; // BCP 47, e.g. en-US or de-DE
+}
+
+const DEFAULT_LOCALE = 'en-US';
+const SLOT_TOKEN = /\[\[SLOT_(\d+)\]\]/g;
+
+// Added to the system prompt of every flow that writes a reply offering slots
+export const SLOT_TOKEN_RULES = `
+Offered slots are written as tokens: [[SLOT_1]] for the first slot, [[SLOT_2]] for the second, and so on, in the order they were offered. Never write a slot's date or time yourself; the tokens are replaced with the date and time in the prospect's timezone (and the rep's) when the email is sent.
+`.trim();
+
+export function isValidLocale(locale: string): boolean {
+  try {
+    return Intl.DateTimeFormat.supportedLocalesOf([locale]).length > 0;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Token standing for the slot at a 0-based index, e.g. [[SLOT_1]]
+ */
+export function slotToken(index: number): string {
+  return `[[SLOT_${index + 1}]]`;
+}
+
+/**
+ * 1-based slot numbers of the tokens in a body, in order of appearance
+ */
+export function findSlotTokens(body: string): number[] {
+  return Array.from(body.matchAll(SLOT_TOKEN), match => Number(match[1]));
+}
+
+/**
+ * Tokens that don't stand for one of `slotCount` slots, e.g. [[SLOT_4]] with 3 slots
+ */
+export function unknownSlotTokens(body: string, slotCount: number): string[] {
+  return [...new Set(findSlotTokens(body).filter(n => n < 1 || n > slotCount).map(n => `[[SLOT_${n}]]`))];
+}
+
+/**
+ * Replace each token with the label of its slot; tokens without a slot are left as they are
+ */
+export function replaceSlotTokens(body: string, labels: string[]): string {
+  return body.replace(SLOT_TOKEN, (token, n: string) => labels[Number(n) - 1] ?? token);
+}
+
+/**
+ * Start of a slot in the recipient's zone, with the rep's time alongside when it differs;
+ * the rep's side names the weekday when the date differs too
+ */
+export function formatSlotForRecipient(start: Date, options: SlotFormatOptions): string {
+  const locale = options.locale && isValidLocale(options.locale) ? options.locale : DEFAULT_LOCALE;
+
+  const day = (timeZone: string) => new Intl.DateTimeFormat(locale, { timeZone, weekday: 'short', month: 'short', day: 'numeric' }).format(start);
+  const time = (timeZone: string) => `${new Intl.DateTimeFormat(locale, { timeZone, hour: 'numeric', minute: '2-digit' }).format(start)} ${zoneLabel(start, timeZone, locale)}`;
+
+  const recipient = `${day(options.recipientTimeZone)}, ${time(options.recipientTimeZone)}`;
+  const repTime = time(options.repTimeZone);
+  if (repTime === time(options.recipientTimeZone)) {
+    return recipient;
+  }
+
+  const sameDay = day(options.repTimeZone) === day(options.recipientTimeZone);
+  const repDay = sameDay ? '' : `${new Intl.DateTimeFormat(locale, { timeZone: options.repTimeZone, weekday: 'short' }).format(start)} `;
+  return `${recipient} / ${repDay}${repTime}`;
+}
+
+// "PT" or "MEZ" where the locale has a short generic name, else "BST", "CEST" or "GMT+5:30"
+function zoneLabel(date: Date, timeZone: string, locale: string): string {
+  const name = (style: 'short' | 'shortGeneric') => {
+    try {
+      return new Intl.DateTimeFormat(locale, { timeZone, timeZoneName: style })
+        .formatToParts(date)
+        .find(part => part.type === 'timeZoneName')?.value;
+    } catch {
+      return undefined; // shortGeneric is missing on older runtimes
+    }
+  };
+
+  const generic = name('shortGeneric');
+  return generic && /^[A-Z]{2,5}$/.test(generic) ? generic : name('short') || timeZone;
+}
@@ -0,0 +1,173 @@
+import { JobTimePreferences, SlotSelectionPolicy, TimeSlot } from '@/types';
+import { formatLocalDate } from './availability';
+import { getZonedParts, resolveTimeZone } from './timezone';
+
+/**
+ * Deterministic choice of which free slots to propose: slots are scored against the
+ * prospect's stated preferences, then picked so that no two are adjacent and they
+ * spread across as many days as possible. Pure, so it needs no calendar or LLM.
+ */
+
+export const DEFAULT_SLOT_SELECTION: SlotSelectionPolicy = {
+  slotCount: 3,
+  maxSlotsPerDay: 2,
+  minGapMinutes: 120
+};
+
+const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// Local minutes-of-day covered by each named part of the day
+const TIME_RANGES: Record<'morning' | 'afternoon' | 'evening', [number, number]> = {
+  morning: [0, 12 * 60],
+  afternoon: [12 * 60, 17 * 60],
+  evening: [17 * 60, 24 * 60]
+};
+
+const SCORE_SPECIFIC_DATE = 8;
+const SCORE_PREFERRED_DAY = 4;
+const SCORE_TIME_RANGE = 3;
+const SCORE_PREFERRED_TIME = 2; // scaled down linearly to 0 at PREFERRED_TIME_WINDOW
+const PREFERRED_TIME_WINDOW = 120; // minutes
+const PENALTY_PER_DAY = 0.1; // later days lose slightly, so earlier slots win ties
+
+interface ScoredSlot {
+  slot: TimeSlot;
+  score: number;
+  day: string; // owner-local date, used to spread picks across days
+  onPreferredDay: boolean;
+}
+
+/**
+ * Parse a weekday name or abbreviation ("Tuesday", "tue") to 0-6
+ */
+function parseWeekday(value: string): number | null {
+  const normalized = value.trim().toLowerCase();
+  if (normalized.length < 3) return null;
+  const index = DAY_NAMES.findIndex(name => name.startsWith(normalized.slice(0, 3)));
+  return index >= 0 ? index : null;
+}
+
+/**
+ * Parse "14:00", "2pm" or "2:30 PM" to minutes of the day
+ */
+function parseClockTime(value: string): number | null {
+  const match = value.trim().toLowerCase().match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/);
+  if (!match) return null;
+
+  let hour = parseInt(match[1], 10);
+  const minute = match[2] ? parseInt(match[2], 10) : 0;
+  if (match[3] === 'pm' && hour < 12) hour += 12;
+  if (match[3] === 'am' && hour === 12) hour = 0;
+
+  return hour < 24 && minute < 60 ? hour * 60 + minute : null;
+}
+
+function isSpecificDate(slot: TimeSlot, preferences: JobTimePreferences, preferenceTimeZone: string): boolean {
+  const local = getZonedParts(new Date(slot.start), preferenceTimeZone);
+  return !!preferences.specificDates?.includes(formatLocalDate(local));
+}
+
+function isPreferredWeekday(slot: TimeSlot, preferences: JobTimePreferences, preferenceTimeZone: string): boolean {
+  const local = getZonedParts(new Date(slot.start), preferenceTimeZone);
+  return (preferences.preferredDays || []).map(parseWeekday).includes(local.weekday);
+}
+
+/**
+ * How well a slot matches the prospect's preferences, read in the prospect's timezone
+ */
+export function scoreSlot(slot: TimeSlot, preferences: JobTimePreferences, preferenceTimeZone: string): number {
+  const local = getZonedParts(new Date(slot.start), preferenceTimeZone);
+  const minuteOfDay = local.hour * 60 + local.minute;
+  let score = 0;
+
+  if (isSpecificDate(slot, preferences, preferenceTimeZone)) {
+    score += SCORE_SPECIFIC_DATE;
+  }
+
+  if (isPreferredWeekday(slot, preferences, preferenceTimeZone)) {
+    score += SCORE_PREFERRED_DAY;
+  }
+
+  if (preferences.timeRange && preferences.timeRange !== 'flexible') {
+    const [start, end] = TIME_RANGES[preferences.timeRange];
+    if (minuteOfDay >= start && minuteOfDay < end) {
+      score += SCORE_TIME_RANGE;
+    }
+  }
+
+  const preferredTimes = (preferences.preferredTimes || [])
+    .map(parseClockTime)
+    .filter((time): time is number => time !== null);
+  if (preferredTimes.length > 0) {
+    const closest = Math.min(...preferredTimes.map(time => Math.abs(time - minuteOfDay)));
+    score += SCORE_PREFERRED_TIME * Math.max(0, 1 - closest / PREFERRED_TIME_WINDOW);
+  }
+
+  return score;
+}
+
+/**
+ * Pick up to policy.slotCount slots from the free candidates.
+ * Slots on days the prospect asked for are exhausted before any other day. Within that,
+ * best-scoring slots are taken one per day first, then up to maxSlotsPerDay when there
+ * are not enough days. Picked slots always keep at least minGapMinutes between them.
+ * Returned in chronological order.
+ * @param timeZone The calendar owner's timezone (day boundaries, preference fallback)
+ */
+export function rankSlots(
+  candidates: TimeSlot[],
+  preferences: JobTimePreferences = {},
+  policy: SlotSelectionPolicy = DEFAULT_SLOT_SELECTION,
+  timeZone: string
+): TimeSlot[] {
+  if (candidates.length === 0 || policy.slotCount <= 0) {
+    return [];
+  }
+
+  const preferenceTimeZone = resolveTimeZone(preferences.timezone, timeZone);
+  const firstStart = Math.min(...candidates.map(slot => new Date(slot.start).getTime()));
+
+  const scored: ScoredSlot[] = candidates
+    .map(slot => {
+      const daysOut = (new Date(slot.start).getTime() - firstStart) / (24 * 60 * 60 * 1000);
+      return {
+        slot,
+        score: scoreSlot(slot, preferences, preferenceTimeZone) - daysOut * PENALTY_PER_DAY,
+        day: formatLocalDate(getZonedParts(new Date(slot.start), timeZone)),
+        onPreferredDay: isSpecificDate(slot, preferences, preferenceTimeZone) ||
+          isPreferredWeekday(slot, preferences, preferenceTimeZone)
+      };
+    })
+    .sort((a, b) => b.score - a.score || new Date(a.slot.start).getTime() - new Date(b.slot.start).getTime());
+
+  const gapMs = Math.max(policy.minGapMinutes, 0) * 60 * 1000;
+  const picked: ScoredSlot[] = [];
+
+  const isSpacedOut = (candidate: ScoredSlot) => picked.every(({ slot }) =>
+    new Date(candidate.slot.start).getTime() >= new Date(slot.end).getTime() + gapMs ||
+    new Date(slot.start).getTime() >= new Date(candidate.slot.end).getTime() + gapMs
+  );
+
+  const passes: Array<[boolean, number]> = [
+    [true, 1],
+    [true, Math.max(policy.maxSlotsPerDay, 1)],
+    [false, 1],
+    [false, Math.max(policy.maxSlotsPerDay, 1)]
+  ];
+
+  for (const [preferredDaysOnly, perDayLimit] of passes) {
+    for (const candidate of scored) {
+      if (picked.length >= policy.slotCount) break;
+      if (picked.includes(candidate) || (preferredDaysOnly && !candidate.onPreferredDay)) continue;
+
+      const sameDay = picked.filter(({ day }) => day === candidate.day).length;
+      if (sameDay < perDayLimit && isSpacedOut(candidate)) {
+        picked.push(candidate);
+      }
+    }
+  }
+
+  return picked
+    .map(({ slot }) => slot)
+    .sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
+}
@@ -0,0 +1,211 @@
+/**
+ * IANA timezone helpers built on Intl, so wall-clock times resolve correctly
+ * regardless of the server's local zone and across DST transitions.
+ */
+
+export interface ZonedDateTimeParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0=Sunday, 6=Saturday
+}
+
+export interface LocalDateTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Use the given zone when valid, otherwise the fallback (e.g. config.businessRules.timezone)
+ */
+export function resolveTimeZone(timeZone: string | null | undefined, fallback: string): string {
+  if (timeZone && isValidTimeZone(timeZone)) {
+    return timeZone;
+  }
+  return fallback;
+}
+
+/**
+ * Wall-clock components of an instant in the given zone
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedDateTimeParts {
+  const parts = getFormatter(timeZone).formatToParts(date);
+  const value = (type: Intl.DateTimeFormatPartTypes) =>
+    parseInt(parts.find(part => part.type === type)?.value || '0', 10);
+
+  const year = value('year');
+  const month = value('month');
+  const day = value('day');
+
+  return {
+    year,
+    month,
+    day,
+    hour: value('hour'),
+    minute: value('minute'),
+    second: value('second'),
+    weekday: new Date(Date.UTC(year, month - 1, day)).getUTCDay()
+  };
+}
+
+/**
+ * Offset of the zone from UTC at the given instant, in minutes (e.g. -420 for PDT)
+ */
+export function getTimeZoneOffsetMinutes(date: Date, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  const instant = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((asUtc - instant) / 60000);
+}
+
+/**
+ * Convert a wall-clock time in the given zone to the UTC instant.
+ * Times skipped by a spring-forward transition are shifted forward by the length of the gap;
+ * times repeated by a fall-back transition resolve to their first occurrence.
+ */
+export function zonedTimeToUtc(local: LocalDateTime, timeZone: string): Date {
+  const naiveUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+
+  // The offset can differ on either side of the naive instant near a transition, so try both
+  const firstOffset = getTimeZoneOffsetMinutes(new Date(naiveUtc), timeZone);
+  const firstGuess = naiveUtc - firstOffset * 60000;
+  const secondOffset = getTimeZoneOffsetMinutes(new Date(firstGuess), timeZone);
+  const secondGuess = naiveUtc - secondOffset * 60000;
+
+  const matches = [firstGuess, secondGuess].filter((candidate) => {
+    const parts = getZonedParts(new Date(candidate), timeZone);
+    return parts.day === local.day && parts.hour === local.hour && parts.minute === local.minute;
+  });
+
+  if (matches.length > 0) {
+    return new Date(Math.min(...matches));
+  }
+
+  // Nonexistent local time (DST gap)
+  return new Date(Math.max(firstGuess, secondGuess));
+}
+
+/**
+ * Local calendar date `days` after the given one (handles month/year rollover)
+ */
+export function addLocalDays(local: Pick<LocalDateTime, 'year' | 'month' | 'day'>, days: number): { year: number; month: number; day: number; weekday: number } {
+  const date = new Date(Date.UTC(local.year, local.month - 1, local.day + days));
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    weekday: date.getUTCDay()
+  };
+}
+
+/**
+ * Parse "HH:MM" into hours and minutes
+ */
+export function parseTimeOfDay(time: string): { hour: number; minute: number } {
+  const [hour, minute] = time.split(':').map(part => parseInt(part, 10));
+  return { hour: hour || 0, minute: minute || 0 };
+}
+
+/**
+ * ISO 8601 representation in the given zone with an explicit offset, e.g. 2025-03-10T09:00:00-07:00
+ */
+export function formatInTimeZone(date: Date, timeZone: string): string {
+  const parts = getZonedParts(date, timeZone);
+  const offset = getTimeZoneOffsetMinutes(date, timeZone);
+  const pad = (value: number) => String(value).padStart(2, '0');
+
+  const sign = offset >= 0 ? '+' : '-';
+  const absOffset = Math.abs(offset);
+
+  return `${parts.year}-${pad(parts.month)}-${pad(parts.day)}T${pad(parts.hour)}:${pad(parts.minute)}:${pad(parts.second)}` +
+    `${sign}${pad(Math.floor(absOffset / 60))}:${pad(absOffset % 60)}`;
+}
+
+/**
+ * Human-readable slot in the given zone, e.g. "Tue, Mar 11, 10:00 AM - 10:30 AM PDT"
+ */
+export function formatSlotLabel(start: Date, end: Date, timeZone: string): string {
+  const day = new Intl.DateTimeFormat('en-US', { timeZone, weekday: 'short', month: 'short', day: 'numeric' }).format(start);
+  const startTime = new Intl.DateTimeFormat('en-US', { timeZone, hour: 'numeric', minute: '2-digit' }).format(start);
+  const endTime = new Intl.DateTimeFormat('en-US', { timeZone, hour: 'numeric', minute: '2-digit', timeZoneName: 'short' }).format(end);
+  return `${day}, ${startTime} - ${endTime}`;
+}
+
+// Zone names people write in emails, checked in order. Abbreviations must be upper case;
+// spelled-out names may be in any case.
+const ZONE_MENTIONS: Array<{ abbreviations: string[]; names?: RegExp; timeZone: string }> = [
+  { abbreviations: ['PST', 'PDT', 'PT'], names: /\bpacific(?: standard| daylight)? time\b/i, timeZone: 'America/Los_Angeles' },
+  { abbreviations: ['MST', 'MDT', 'MT'], names: /\bmountain(?: standard| daylight)? time\b/i, timeZone: 'America/Denver' },
+  { abbreviations: ['CST', 'CDT', 'CT'], names: /\bcentral(?: standard| daylight)? time\b/i, timeZone: 'America/Chicago' },
+  { abbreviations: ['EST', 'EDT', 'ET'], names: /\beastern(?: standard| daylight)? time\b/i, timeZone: 'America/New_York' },
+  { abbreviations: ['BST'], names: /\b(uk|london) time\b/i, timeZone: 'Europe/London' },
+  { abbreviations: ['CET', 'CEST'], names: /\bcentral european(?: summer)? time\b/i, timeZone: 'Europe/Paris' },
+  { abbreviations: ['IST'], names: /\bindia(?:n)?(?: standard)? time\b/i, timeZone: 'Asia/Kolkata' },
+  { abbreviations: ['SGT'], names: /\bsingapore time\b/i, timeZone: 'Asia/Singapore' },
+  { abbreviations: ['JST'], names: /\b(japan|tokyo) time\b/i, timeZone: 'Asia/Tokyo' },
+  { abbreviations: ['AEST', 'AEDT'], names: /\b(sydney|melbourne) time\b/i, timeZone: 'Australia/Sydney' },
+  { abbreviations: ['UTC', 'GMT'], timeZone: 'UTC' }
+];
+
+// Also common words or other zones ("PT session", "CT scan", "Mt. Everest", Irish Standard Time):
+// they only count right after a time, e.g. "3pm ET" or "10:00 (PT)"
+const AMBIGUOUS_ABBREVIATIONS = new Set(['PT', 'MT', 'CT', 'ET', 'BST', 'IST']);
+
+function mentionsAbbreviation(text: string, abbreviation: string): boolean {
+  const pattern = AMBIGUOUS_ABBREVIATIONS.has(abbreviation)
+    ? new RegExp(`\\b\\d{1,2}(?::\\d{2})?\\s*(?:[aApP]\\.?[mM]\\.?)?\\s*\\(?${abbreviation}\\b`)
+    : new RegExp(`\\b${abbreviation}\\b`);
+  return pattern.test(text);
+}
+
+/**
+ * IANA zone the text names, e.g. "3pm EST" or "Europe/Berlin"; null when it names none
+ */
+export function detectTimeZoneMention(text: string): string | null {
+  const iana = text.match(/\b[A-Z][a-z]+\/[A-Z][A-Za-z_]+(?:\/[A-Z][A-Za-z_]+)?\b/g)?.find(isValidTimeZone);
+  if (iana) {
+    return iana;
+  }
+
+  for (const { abbreviations, names, timeZone } of ZONE_MENTIONS) {
+    if (names?.test(text) || abbreviations.some(abbreviation => mentionsAbbreviation(text, abbreviation))) {
+      return timeZone;
+    }
+  }
+  return null;
+}
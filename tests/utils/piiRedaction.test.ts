@@ -0,0 +1,50 @@
+import { DEFAULT_PII_REDACTION, PiiRedactor } from '@/utils/piiRedaction';
+
+describe('PiiRedactor', () => {
+  const redact = (text: string) => new PiiRedactor(DEFAULT_PII_REDACTION).redact(text);
+
+  describe('phone numbers', () => {
+    it.each([
+      ['Call me on +1 415 555 0132', 'Call me on [PHONE_1]'],
+      ['My number is (415) 555-0132.', 'My number is [PHONE_1].'],
+      ['Mobile: 020 7946 0958', 'Mobile: [PHONE_1]'],
+      ['Reach me at +441632960961', 'Reach me at [PHONE_1]']
+    ])('redacts %j', (text, expected) => {
+      expect(redact(text)).toBe(expected);
+    });
+
+    it('gives the same number the same placeholder', () => {
+      const redactor = new PiiRedactor(DEFAULT_PII_REDACTION);
+      expect(redactor.redact('415-555-0132 or 020 7946 0958')).toBe('[PHONE_1] or [PHONE_2]');
+      expect(redactor.redact('Again: 415 555 0132')).toBe('Again: [PHONE_1]');
+      expect(redactor.counts).toEqual({ phone: 3 });
+    });
+  });
+
+  describe('dates and times', () => {
+    it.each([
+      'How about 2025-09-16 14:00?',
+      'Does 09-16-2025 10:00 work?',
+      'Can we do 16.09.2025 10 Uhr?',
+      'Tuesday 16/09/2025 at 14:30 works for me',
+      'Any time between 2025-09-16 and 2025-09-18',
+      'Free 9:00-17:00 on 2025.09.16',
+      'Reference 2025-09-16 14:00:00 UTC'
+    ])('keeps %j', text => {
+      expect(redact(text)).toBe(text);
+    });
+
+    it('keeps the requested time next to a redacted phone number', () => {
+      expect(redact('How about 2025-09-16 14:00? Call +1 415 555 0132 if easier'))
+        .toBe('How about 2025-09-16 14:00? Call [PHONE_1] if easier');
+    });
+  });
+
+  describe('restore', () => {
+    it('puts phone numbers back and masks card numbers', () => {
+      const redactor = new PiiRedactor(DEFAULT_PII_REDACTION);
+      redactor.redact('Card 4242 4242 4242 4242, phone +1 415 555 0132');
+      expect(redactor.restore('Noted [CARD_1], will call [PHONE_1]')).toBe('Noted ****4242, will call +1 415 555 0132');
+    });
+  });
+});
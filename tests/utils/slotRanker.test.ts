@@ -0,0 +1,73 @@
+import { TimeSlot } from '@/types';
+import { DEFAULT_SLOT_SELECTION, rankSlots } from '@/utils/slotRanker';
+
+const MINUTE = 60 * 1000;
+
+function slot(start: string, minutes: number = 30): TimeSlot {
+  const startDate = new Date(start);
+  return { start: startDate, end: new Date(startDate.getTime() + minutes * MINUTE), timezone: 'UTC' };
+}
+
+// Every half hour from 9:00 to 16:30 UTC on the given dates
+function workingDay(...dates: string[]): TimeSlot[] {
+  return dates.flatMap(date =>
+    Array.from({ length: 16 }, (_, i) => slot(`${date}T${String(9 + Math.floor(i / 2)).padStart(2, '0')}:${i % 2 ? '30' : '00'}:00Z`))
+  );
+}
+
+const days = (slots: TimeSlot[]) => new Set(slots.map(({ start }) => start.toISOString().substring(0, 10)));
+
+// 2026-10-19 is a Monday
+const MON = '2026-10-19';
+const TUE = '2026-10-20';
+const WED = '2026-10-21';
+
+describe('rankSlots', () => {
+  it('keeps the minimum gap between picked slots', () => {
+    const policy = { slotCount: 3, maxSlotsPerDay: 3, minGapMinutes: 120 };
+    const picked = rankSlots(workingDay(MON), {}, policy, 'UTC');
+
+    expect(picked).toHaveLength(3);
+    for (let i = 1; i < picked.length; i++) {
+      expect(picked[i].start.getTime() - picked[i - 1].end.getTime()).toBeGreaterThanOrEqual(120 * MINUTE);
+    }
+  });
+
+  it('spreads slots across distinct days', () => {
+    const picked = rankSlots(workingDay(MON, TUE, WED), {}, DEFAULT_SLOT_SELECTION, 'UTC');
+
+    expect(picked).toHaveLength(3);
+    expect(days(picked)).toEqual(new Set([MON, TUE, WED]));
+  });
+
+  it('ranks slots in the preferred window first', () => {
+    const picked = rankSlots(workingDay(MON, TUE, WED), { preferredTimes: ['2pm'] }, DEFAULT_SLOT_SELECTION, 'UTC');
+
+    expect(picked.map(({ start }) => start.toISOString())).toEqual([
+      `${MON}T14:00:00.000Z`,
+      `${TUE}T14:00:00.000Z`,
+      `${WED}T14:00:00.000Z`
+    ]);
+  });
+
+  it('fills the preferred day before any other', () => {
+    const picked = rankSlots(workingDay(MON, TUE, WED), { preferredDays: ['Wednesday'], timeRange: 'afternoon' }, DEFAULT_SLOT_SELECTION, 'UTC');
+
+    expect(picked.filter(({ start }) => start.toISOString().startsWith(WED))).toHaveLength(DEFAULT_SLOT_SELECTION.maxSlotsPerDay);
+    expect(picked.every(({ start }) => start.getUTCHours() >= 12)).toBe(true);
+  });
+
+  it('reads preferences in the prospect\'s timezone', () => {
+    // 9:00 in New York is 13:00 UTC
+    const picked = rankSlots(workingDay(MON), { preferredTimes: ['09:00'], timezone: 'America/New_York' }, { ...DEFAULT_SLOT_SELECTION, slotCount: 1 }, 'UTC');
+
+    expect(picked.map(({ start }) => start.toISOString())).toEqual([`${MON}T13:00:00.000Z`]);
+  });
+
+  it('returns every candidate in order when there are fewer than requested', () => {
+    const candidates = [slot(`${TUE}T15:00:00Z`), slot(`${MON}T10:00:00Z`)];
+
+    expect(rankSlots(candidates, {}, DEFAULT_SLOT_SELECTION, 'UTC')).toEqual([candidates[1], candidates[0]]);
+    expect(rankSlots([], {}, DEFAULT_SLOT_SELECTION, 'UTC')).toEqual([]);
+  });
+});
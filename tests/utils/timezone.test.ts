@@ -0,0 +1,27 @@
+import { detectTimeZoneMention } from '@/utils/timezone';
+
+describe('detectTimeZoneMention', () => {
+  it.each([
+    ['Could we do Tuesday at 3pm ET?', 'America/New_York'],
+    ['Anything after 10:00 (PT) works', 'America/Los_Angeles'],
+    ['I am free 2 - 4 p.m. CT', 'America/Chicago'],
+    ['Thursday 14:00 IST would be ideal', 'Asia/Kolkata'],
+    ['We are on EST', 'America/New_York'],
+    ['Our team is in CET', 'Europe/Paris'],
+    ['I work Pacific Time hours', 'America/Los_Angeles'],
+    ['Based in Europe/Berlin', 'Europe/Berlin']
+  ])('finds the zone in %j', (text, expected) => {
+    expect(detectTimeZoneMention(text)).toBe(expected);
+  });
+
+  it.each([
+    'Booked a PT session on Monday, can we meet after?',
+    'I have a CT scan on Friday morning',
+    'Just back from MT. Everest base camp',
+    'Talk soon,\nET',
+    'Our IST team lead will join',
+    'Sent from my phone, et cetera'
+  ])('finds no zone in %j', text => {
+    expect(detectTimeZoneMention(text)).toBeNull();
+  });
+});